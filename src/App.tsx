@@ -5,9 +5,13 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import Memories from "./pages/Memories";
+import Usage from "./pages/Usage";
+import SharedConversation from "./pages/SharedConversation";
 import NotFound from "./pages/NotFound";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/context/AuthContext";
+import { WorkspaceProvider } from "@/context/WorkspaceContext";
 
 const queryClient = new QueryClient();
 
@@ -33,21 +37,35 @@ const RequireAuth = ({ children }: { children: React.ReactNode }) => {
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <BrowserRouter>
-          <Toaster />
-          <Sonner position="bottom-right" />
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/" element={
-              <RequireAuth>
-                <Index />
-              </RequireAuth>
-            } />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <WorkspaceProvider>
+        <TooltipProvider>
+          <BrowserRouter>
+            <Toaster />
+            <Sonner position="bottom-right" />
+            <Routes>
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/" element={
+                <RequireAuth>
+                  <Index />
+                </RequireAuth>
+              } />
+              <Route path="/memories" element={
+                <RequireAuth>
+                  <Memories />
+                </RequireAuth>
+              } />
+              <Route path="/usage" element={
+                <RequireAuth>
+                  <Usage />
+                </RequireAuth>
+              } />
+              {/* Public: anyone with the link can read the conversation */}
+              <Route path="/share/:token" element={<SharedConversation />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </WorkspaceProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
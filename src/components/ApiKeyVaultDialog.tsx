@@ -0,0 +1,285 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2, KeyRound, Loader2, Star, Trash2, XCircle } from "lucide-react";
+import { getProviderSettings } from "@/services/providers";
+import {
+  KEY_PROVIDERS,
+  KeyProvider,
+  StoredApiKey,
+  addApiKey,
+  getApiKeys,
+  revokeApiKey,
+  setDefaultApiKey,
+  testApiKey
+} from "@/services/apiKeyService";
+
+interface ApiKeyVaultDialogProps {
+  open: boolean;
+  onClose: () => void;
+  provider?: KeyProvider; // Preselected in the add form
+}
+
+export const ApiKeyVaultDialog = ({ open, onClose, provider = "gemini" }: ApiKeyVaultDialogProps) => {
+  const [keys, setKeys] = useState<StoredApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newProvider, setNewProvider] = useState<KeyProvider>(provider);
+  const [newLabel, setNewLabel] = useState("");
+  const [newKey, setNewKey] = useState("");
+  const [makeDefault, setMakeDefault] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<StoredApiKey | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setNewProvider(provider);
+    setNewLabel("");
+    setNewKey("");
+    setMakeDefault(true);
+    setIsLoading(true);
+    getApiKeys().then(loaded => {
+      setKeys(loaded);
+      setIsLoading(false);
+    });
+  }, [open, provider]);
+
+  const replaceKey = (updated: StoredApiKey) =>
+    setKeys(prev => prev.map(key => key.id === updated.id ? updated : key));
+
+  const handleAdd = async () => {
+    if (!newLabel.trim() || !newKey.trim()) {
+      toast.error("A key needs a label and the key itself");
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const added = await addApiKey(newProvider, newLabel.trim(), newKey.trim(), makeDefault);
+      if (added) {
+        setKeys(prev => [
+          ...prev.map(key => added.is_default && key.provider === added.provider ? { ...key, is_default: false } : key),
+          added
+        ]);
+        setNewLabel("");
+        setNewKey("");
+        toast.success("API key saved");
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleTest = async (key: StoredApiKey) => {
+    setTestingId(key.id);
+    try {
+      const baseUrl = key.provider === "openai" ? getProviderSettings("openai").baseUrl : undefined;
+      const result = await testApiKey(key.id, baseUrl);
+      if (!result) return;
+
+      if (result.key) replaceKey(result.key);
+      if (result.ok) {
+        toast.success(`${key.label}: ${result.message}`);
+      } else {
+        toast.error(`${key.label}: ${result.message}`);
+      }
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleSetDefault = async (key: StoredApiKey) => {
+    if (await setDefaultApiKey(key)) {
+      setKeys(prev => prev.map(item =>
+        item.provider === key.provider ? { ...item, is_default: item.id === key.id } : item
+      ));
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    const key = revoking;
+    setRevoking(null);
+
+    if (await revokeApiKey(key.id)) {
+      setKeys(prev => prev.filter(item => item.id !== key.id));
+      toast.success(`${key.label} revoked`);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>API keys</DialogTitle>
+            <DialogDescription>
+              Keys are encrypted before they are stored and are only used by the PodcastGPT server.
+              The default key of each provider is used for your requests.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 py-2">
+            {KEY_PROVIDERS.map(({ id, label }) => {
+              const providerKeys = keys.filter(key => key.provider === id);
+              return (
+                <div key={id} className="space-y-2">
+                  <h3 className="text-sm font-medium">{label}</h3>
+                  {isLoading ? (
+                    <p className="text-xs text-muted-foreground">Loading...</p>
+                  ) : providerKeys.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      {id === "gemini"
+                        ? "No keys yet. Requests use the shared server key, if one is set up."
+                        : "No keys yet."}
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {providerKeys.map(key => (
+                        <li key={key.id} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                          <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="truncate">{key.label}</span>
+                              {key.is_default && <Badge variant="secondary" className="text-xs">Default</Badge>}
+                            </div>
+                            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <span>••••{key.key_hint}</span>
+                              {key.last_tested_at && (
+                                <>
+                                  <span>·</span>
+                                  {key.last_test_ok
+                                    ? <CheckCircle2 className="h-3 w-3 text-green-500" />
+                                    : <XCircle className="h-3 w-3 text-destructive" />}
+                                  <span>tested {formatDistanceToNow(new Date(key.last_tested_at), { addSuffix: true })}</span>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => handleTest(key)}
+                            disabled={testingId !== null}
+                          >
+                            {testingId === key.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Test"}
+                          </Button>
+                          {!key.is_default && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => handleSetDefault(key)}
+                              title="Make default"
+                            >
+                              <Star className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive"
+                            onClick={() => setRevoking(key)}
+                            title="Revoke"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="space-y-3 rounded-md border p-3">
+              <h3 className="text-sm font-medium">Add a key</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="vault-provider">Provider</Label>
+                  <Select value={newProvider} onValueChange={(value) => setNewProvider(value as KeyProvider)}>
+                    <SelectTrigger id="vault-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {KEY_PROVIDERS.map(({ id, label }) => (
+                        <SelectItem key={id} value={id}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="vault-label">Label</Label>
+                  <Input
+                    id="vault-label"
+                    placeholder="Personal, Work..."
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    className="bg-secondary/50"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vault-key">API key</Label>
+                <Input
+                  id="vault-key"
+                  type="password"
+                  autoComplete="off"
+                  value={newKey}
+                  onChange={(e) => setNewKey(e.target.value)}
+                  className="bg-secondary/50"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch id="vault-default" checked={makeDefault} onCheckedChange={setMakeDefault} />
+                  <Label htmlFor="vault-default" className="text-xs font-normal">Use as default</Label>
+                </div>
+                <Button
+                  onClick={handleAdd}
+                  disabled={isAdding}
+                  className="bg-podcast-primary hover:bg-podcast-secondary"
+                >
+                  Save key
+                </Button>
+              </div>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!revoking} onOpenChange={(isOpen) => !isOpen && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revoking?.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The encrypted key is deleted from PodcastGPT. Revoke it with the provider as well if it may have leaked.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
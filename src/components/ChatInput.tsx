@@ -2,17 +2,19 @@
 import { useState, FormEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { SendHorizontal, Loader2 } from "lucide-react";
+import { SendHorizontal, Loader2, Square } from "lucide-react";
 
 interface ChatInputProps {
   onSubmit: (message: string) => void;
   isProcessing: boolean;
+  onStop?: () => void; // Shown as a Stop button while a response is streaming
   placeholder?: string;
 }
 
 export const ChatInput = ({
   onSubmit,
   isProcessing,
+  onStop,
   placeholder = "Ask me anything about podcast research or scriptwriting..."
 }: ChatInputProps) => {
   const [input, setInput] = useState("");
@@ -45,18 +47,30 @@ export const ChatInput = ({
           disabled={isProcessing}
         />
         <div className="absolute right-4 bottom-4">
-          <Button 
-            size="icon" 
-            type="submit" 
-            disabled={isProcessing || !input.trim()}
-            className="bg-podcast-primary hover:bg-podcast-secondary"
-          >
-            {isProcessing ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <SendHorizontal className="h-4 w-4" />
-            )}
-          </Button>
+          {isProcessing && onStop ? (
+            <Button
+              size="icon"
+              type="button"
+              onClick={onStop}
+              variant="destructive"
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button 
+              size="icon" 
+              type="submit" 
+              disabled={isProcessing || !input.trim()}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              {isProcessing ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <SendHorizontal className="h-4 w-4" />
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </form>
@@ -1,27 +1,94 @@
-
+import { useState } from "react";
 import { Message } from "@/services/geminiService";
 import { cn } from "@/lib/utils";
 import { Avatar } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import ReactMarkdown from "react-markdown";
-import { MessageSquare, User } from "lucide-react";
+import { HARM_CATEGORIES, SafetyFeedback } from "@/services/providers";
+import {
+  MessageSquare,
+  User,
+  CircleStop,
+  RefreshCw,
+  Pencil,
+  ChevronLeft,
+  ChevronRight,
+  GitBranch,
+  ShieldAlert,
+  Scissors,
+  StepForward,
+  AlertTriangle
+} from "lucide-react";
 
 interface ChatMessageProps {
   message: Message;
+  disabled?: boolean; // Hides the actions while a response is streaming
+  highlighted?: boolean; // Flashes the message when it is opened from search
+  userLabel?: string; // Name shown on the user's messages
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onSelectVariant?: (messageId: string) => void;
+  onFork?: () => void;
+  onContinue?: () => void;
+  onRetry?: () => void;
 }
 
-export const ChatMessage = ({ message }: ChatMessageProps) => {
+// Plain-language reason for a withheld reply
+const describeBlock = ({ blockReason, finishReason }: SafetyFeedback) => {
+  if (blockReason === "SAFETY") return "Your message was blocked by the safety filters.";
+  if (blockReason) return `Your message was blocked (${blockReason.toLowerCase().replace(/_/g, " ")}).`;
+  if (finishReason === "SAFETY") return "The reply was stopped by the safety filters.";
+  if (finishReason === "RECITATION") return "The reply was stopped because it repeated copyrighted material.";
+  return `The reply was withheld (${finishReason?.toLowerCase().replace(/_/g, " ")}).`;
+};
+
+const categoryLabel = (category: string) =>
+  HARM_CATEGORIES.find(item => item.id === category)?.label ?? category;
+
+export const ChatMessage = ({
+  message,
+  disabled,
+  highlighted,
+  userLabel = "You",
+  onRegenerate,
+  onEdit,
+  onSelectVariant,
+  onFork,
+  onContinue,
+  onRetry
+}: ChatMessageProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const isAi = message.role === "assistant";
-  
+
   // Process the content to ensure proper formatting
   const processedContent = message.content
     .replace(/\\n/g, '\n') // Replace literal '\n' strings with actual newlines
     .trim();
-  
+
+  const variantIds = message.variantIds ?? [message.id];
+  const variantIndex = variantIds.indexOf(message.id);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setIsEditing(false);
+    onEdit?.(draft.trim());
+  };
+
   return (
     <div
+      id={`message-${message.id}`}
       className={cn(
-        "flex gap-3 p-4 rounded-lg",
-        isAi ? "bg-secondary/50" : "bg-muted/50"
+        "group flex gap-3 p-4 rounded-lg transition-shadow duration-500",
+        isAi ? "bg-secondary/50" : "bg-muted/50",
+        highlighted && "ring-2 ring-podcast-primary"
       )}
     >
       <Avatar className={cn("h-8 w-8", isAi ? "bg-podcast-primary" : "bg-secondary")}>
@@ -32,14 +99,135 @@ export const ChatMessage = ({ message }: ChatMessageProps) => {
         )}
       </Avatar>
       <div className="flex-1 space-y-2">
-        <div className="text-sm font-medium">
-          {isAi ? "PodcastGPT" : "You"}
-        </div>
-        <div className="prose prose-invert max-w-none text-sm">
-          <ReactMarkdown className="whitespace-pre-wrap">
-            {processedContent}
-          </ReactMarkdown>
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {isAi ? "PodcastGPT" : userLabel}
+          {message.status === "stopped" && (
+            <Badge variant="outline" className="gap-1 text-xs font-normal text-muted-foreground">
+              <CircleStop className="h-3 w-3" />
+              Stopped
+            </Badge>
+          )}
+          {message.status === "truncated" && (
+            <Badge variant="outline" className="gap-1 text-xs font-normal text-muted-foreground">
+              <Scissors className="h-3 w-3" />
+              Cut off at token limit
+            </Badge>
+          )}
         </div>
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="min-h-24 bg-background"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={submitEdit}
+                disabled={!draft.trim()}
+                className="bg-podcast-primary hover:bg-podcast-secondary"
+              >
+                Save & Send
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="prose prose-invert max-w-none text-sm">
+            <ReactMarkdown className="whitespace-pre-wrap">
+              {processedContent}
+            </ReactMarkdown>
+          </div>
+        )}
+        {message.safetyFeedback && (
+          <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-xs space-y-2">
+            <div className="flex items-center gap-2 font-medium text-destructive">
+              <ShieldAlert className="h-4 w-4" />
+              {describeBlock(message.safetyFeedback)}
+            </div>
+            {message.safetyFeedback.safetyRatings.length > 0 && (
+              <ul className="space-y-0.5 text-muted-foreground">
+                {message.safetyFeedback.safetyRatings.map(rating => (
+                  <li key={rating.category} className={cn(rating.blocked && "font-medium text-foreground")}>
+                    {categoryLabel(rating.category)}: {rating.probability.toLowerCase()} probability
+                    {rating.blocked && " (blocked)"}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-muted-foreground">
+              If this topic is expected for your show, loosen its safety filters in the show profile and regenerate.
+            </p>
+          </div>
+        )}
+        {message.error && (
+          <div className="flex items-start gap-3 rounded-md border border-destructive/40 bg-destructive/10 p-3 text-xs">
+            <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+            <p className="flex-1">{message.error}</p>
+            {onRetry && !disabled && (
+              <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={onRetry}>
+                <RefreshCw className="h-3.5 w-3.5" />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+        {message.status === "truncated" && onContinue && !disabled && (
+          <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={onContinue}>
+            <StepForward className="h-3.5 w-3.5" />
+            Continue
+          </Button>
+        )}
+        {!isEditing && !disabled && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            {variantIds.length > 1 && onSelectVariant && (
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={variantIndex <= 0}
+                  onClick={() => onSelectVariant(variantIds[variantIndex - 1])}
+                  title="Previous version"
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                </Button>
+                <span>{variantIndex + 1}/{variantIds.length}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={variantIndex >= variantIds.length - 1}
+                  onClick={() => onSelectVariant(variantIds[variantIndex + 1])}
+                  title="Next version"
+                >
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {isAi && onRegenerate && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onRegenerate} title="Regenerate response">
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {!isAi && onEdit && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={startEditing} title="Edit and resend">
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              {onFork && (
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onFork} title="Fork conversation from here">
+                  <GitBranch className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { Collaborator, collaboratorName } from "@/services/realtimeService";
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+  max?: number; // Avatars shown before the rest collapse into "+N"
+  size?: "sm" | "md";
+}
+
+// Overlapping initials of the members viewing a conversation; a pulsing ring marks those generating
+export const CollaboratorAvatars = ({ collaborators, max = 3, size = "md" }: CollaboratorAvatarsProps) => {
+  if (collaborators.length === 0) return null;
+
+  const shown = collaborators.slice(0, max);
+  const hidden = collaborators.length - shown.length;
+  const sizeClass = size === "sm" ? "h-5 w-5 text-[9px]" : "h-7 w-7 text-xs";
+
+  return (
+    <div
+      className="flex -space-x-1.5"
+      title={collaborators.map(collaborator =>
+        `${collaborator.email}${collaborator.generating ? " (generating)" : ""}`
+      ).join("\n")}
+    >
+      {shown.map(collaborator => (
+        <Avatar
+          key={collaborator.userId}
+          className={cn(
+            sizeClass,
+            "border-2 border-background",
+            collaborator.generating && "animate-pulse ring-2 ring-podcast-primary"
+          )}
+        >
+          <AvatarFallback className="bg-podcast-primary/20 text-podcast-primary">
+            {collaboratorName(collaborator).slice(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <span className={cn(sizeClass, "flex items-center justify-center rounded-full border-2 border-background bg-muted")}>
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+};
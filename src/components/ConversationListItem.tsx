@@ -0,0 +1,285 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from "@/components/ui/context-menu";
+import {
+  Archive,
+  ArchiveRestore,
+  Download,
+  Folder,
+  FolderMinus,
+  GitBranch,
+  MessageSquare,
+  Pencil,
+  Pin,
+  PinOff,
+  Share2,
+  Tag,
+  Trash2
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { setDragItem } from "@/lib/sidebarDrag";
+import { Conversation, ConversationOrganization } from "@/services/conversationService";
+import { ConversationFolder } from "@/services/folderService";
+import { EXPORT_FORMATS, ExportFormat } from "@/services/exportService";
+import { Collaborator } from "@/services/realtimeService";
+import { CollaboratorAvatars } from "@/components/CollaboratorAvatars";
+
+interface ConversationListItemProps {
+  conversation: Conversation;
+  isCurrent: boolean;
+  parentTitle?: string; // Title of the conversation this one was forked from
+  folders: ConversationFolder[];
+  readOnly?: boolean; // Viewers of a workspace can open, organize for themselves and export, nothing else
+  viewers?: Collaborator[]; // Other members who have the conversation open
+  onSelect: (conversationId: string) => void;
+  onOrganize: (changes: ConversationOrganization) => void;
+  onEditTags: () => void;
+  onRename: (title: string) => void;
+  onExport: (format: ExportFormat) => void;
+  onShare: () => void;
+  onDelete: () => void;
+}
+
+// Full path of each folder, e.g. "Cold Case / Season 2", for the Move to menu
+const folderPaths = (folders: ConversationFolder[]) => {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const pathOf = (folder: ConversationFolder): string => {
+    const parent = folder.parent_id ? byId.get(folder.parent_id) : undefined;
+    return parent ? `${pathOf(parent)} / ${folder.name}` : folder.name;
+  };
+  return folders
+    .map(folder => ({ id: folder.id, path: pathOf(folder) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+};
+
+export const ConversationListItem = ({
+  conversation,
+  isCurrent,
+  parentTitle,
+  folders,
+  readOnly = false,
+  viewers = [],
+  onSelect,
+  onOrganize,
+  onEditTags,
+  onRename,
+  onExport,
+  onShare,
+  onDelete
+}: ConversationListItemProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState("");
+  const cancelRenameRef = useRef(false);
+
+  const startRename = () => {
+    if (readOnly) return;
+    setDraftTitle(conversation.title);
+    setIsRenaming(true);
+  };
+
+  // Enter and Escape both leave the field through blur, so the rename is applied exactly once
+  const finishRename = () => {
+    setIsRenaming(false);
+    if (cancelRenameRef.current) {
+      cancelRenameRef.current = false;
+      return;
+    }
+    const title = draftTitle.trim();
+    if (title && title !== conversation.title) onRename(title);
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="px-1 py-1">
+        <Input
+          autoFocus
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onFocus={(e) => e.target.select()}
+          onBlur={finishRename}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") cancelRenameRef.current = true;
+            if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+          }}
+          maxLength={120}
+          className="h-8 text-sm"
+          aria-label="Conversation title"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          className="group relative"
+          draggable
+          onDragStart={(event) => setDragItem(event, { kind: "conversation", id: conversation.id })}
+        >
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "w-full justify-start text-left font-normal px-3 py-2 h-auto",
+              isCurrent && "bg-muted",
+              conversation.archived_at && "opacity-60"
+            )}
+            onClick={() => onSelect(conversation.id)}
+            onDoubleClick={startRename}
+          >
+            {conversation.parent_conversation_id ? (
+              <GitBranch className="mr-2 h-4 w-4 shrink-0" />
+            ) : (
+              <MessageSquare className="mr-2 h-4 w-4 shrink-0" />
+            )}
+            <div className="flex flex-col items-start truncate pr-6">
+              <span className="flex w-full items-center gap-1 truncate">
+                {conversation.pinned && <Pin className="h-3 w-3 shrink-0 text-podcast-primary" />}
+                <span className="truncate">{conversation.title}</span>
+              </span>
+              {conversation.synopsis && (
+                <span className="w-full truncate text-xs text-muted-foreground" title={conversation.synopsis}>
+                  {conversation.synopsis}
+                </span>
+              )}
+              {conversation.parent_conversation_id && parentTitle && (
+                <span
+                  role="link"
+                  className="truncate text-xs text-muted-foreground hover:text-foreground hover:underline"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onSelect(conversation.parent_conversation_id);
+                  }}
+                >
+                  forked from {parentTitle}
+                </span>
+              )}
+              {conversation.tags.length > 0 && (
+                <span className="truncate text-xs text-podcast-primary/80">
+                  {conversation.tags.map(tag => `#${tag}`).join(" ")}
+                </span>
+              )}
+              <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                {format(new Date(conversation.updated_at), 'MMM d, yyyy')}
+                <CollaboratorAvatars collaborators={viewers} size="sm" />
+              </span>
+            </div>
+          </Button>
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute right-1 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 h-6 w-6 transition-opacity"
+              onClick={(event) => {
+                event.stopPropagation();
+                onDelete();
+              }}
+              title="Delete conversation"
+            >
+              <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+            </Button>
+          )}
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent
+        className="w-52"
+        // Keep focus in the rename field instead of returning it to the row
+        onCloseAutoFocus={(event) => event.preventDefault()}
+      >
+        {!readOnly && (
+          <ContextMenuItem onSelect={startRename}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Rename
+          </ContextMenuItem>
+        )}
+        <ContextMenuItem onSelect={() => onOrganize({ pinned: !conversation.pinned })}>
+          {conversation.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+          {conversation.pinned ? "Unpin" : "Pin"}
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={onEditTags}>
+          <Tag className="mr-2 h-4 w-4" />
+          Edit tags...
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>
+            <Folder className="mr-2 h-4 w-4" />
+            Move to folder
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent className="max-h-72 w-56 overflow-y-auto">
+            {conversation.folder_id && (
+              <>
+                <ContextMenuItem onSelect={() => onOrganize({ folder_id: null })}>
+                  <FolderMinus className="mr-2 h-4 w-4" />
+                  Remove from folder
+                </ContextMenuItem>
+                <ContextMenuSeparator />
+              </>
+            )}
+            {folders.length === 0 ? (
+              <ContextMenuItem disabled>No folders yet</ContextMenuItem>
+            ) : (
+              folderPaths(folders).map(folder => (
+                <ContextMenuItem
+                  key={folder.id}
+                  disabled={folder.id === conversation.folder_id}
+                  onSelect={() => onOrganize({ folder_id: folder.id })}
+                >
+                  <span className="truncate">{folder.path}</span>
+                </ContextMenuItem>
+              ))
+            )}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuItem
+          onSelect={() => onOrganize({ archived_at: conversation.archived_at ? null : new Date().toISOString() })}
+        >
+          {conversation.archived_at ? <ArchiveRestore className="mr-2 h-4 w-4" /> : <Archive className="mr-2 h-4 w-4" />}
+          {conversation.archived_at ? "Unarchive" : "Archive"}
+        </ContextMenuItem>
+        {!readOnly && (
+          <ContextMenuItem onSelect={onShare}>
+            <Share2 className="mr-2 h-4 w-4" />
+            Share...
+          </ContextMenuItem>
+        )}
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>
+            <Download className="mr-2 h-4 w-4" />
+            Export as
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent className="w-40">
+            {EXPORT_FORMATS.map(option => (
+              <ContextMenuItem key={option.id} onSelect={() => onExport(option.id)}>
+                {option.label}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        {!readOnly && (
+          <>
+            <ContextMenuSeparator />
+            <ContextMenuItem
+              className="text-destructive focus:text-destructive"
+              onSelect={onDelete}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </ContextMenuItem>
+          </>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
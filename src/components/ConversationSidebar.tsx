@@ -1,59 +1,135 @@
-
-import { useState, useEffect } from 'react';
-import { getUserConversations, Conversation, deleteConversation } from '@/services/conversationService';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getUserConversations,
+  Conversation,
+  ConversationOrganization,
+  deleteConversation,
+  toConversation,
+  updateConversationOrganization,
+  updateConversationTitle
+} from '@/services/conversationService';
+import {
+  ConversationFolder,
+  createFolder,
+  deleteFolder,
+  getFolders,
+  isWithinFolder,
+  moveFolder,
+  renameFolder
+} from '@/services/folderService';
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { MessageSquare, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Search, X, Archive, FolderPlus, Download, Upload } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format } from 'date-fns';
 import { toast } from "sonner";
+import { SearchSnippet } from "@/components/SearchSnippet";
+import { ConversationListItem } from "@/components/ConversationListItem";
+import { FolderTree } from "@/components/FolderTree";
+import { FolderNameDialog } from "@/components/FolderNameDialog";
+import { ConversationTagsDialog } from "@/components/ConversationTagsDialog";
+import { ExportConversationsDialog } from "@/components/ExportConversationsDialog";
+import { ImportConversationsDialog } from "@/components/ImportConversationsDialog";
+import { ShareConversationDialog } from "@/components/ShareConversationDialog";
+import { useMessageSearch } from "@/hooks/use-message-search";
+import { useAuth } from "@/context/AuthContext";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { SidebarDragItem, getDragItem, isSidebarDrag } from "@/lib/sidebarDrag";
+import { ExportFormat, exportConversations } from "@/services/exportService";
+import { Collaborator, subscribeToConversations } from "@/services/realtimeService";
 
 interface ConversationSidebarProps {
   currentConversationId: string | null;
   onSelectConversation: (conversationId: string) => void;
+  onSelectSearchResult: (conversationId: string, messageId: string) => void;
   onNewChat: () => void;
   onConversationDeleted?: () => void;
   refreshTrigger?: number; // Added to trigger refresh when a new conversation is created
+  collaborators?: Collaborator[]; // Other workspace members and the conversations they have open
 }
 
-export const ConversationSidebar = ({ 
-  currentConversationId, 
-  onSelectConversation, 
+// Radix Select items cannot have an empty value, so this stands for "no tag filter"
+const ALL_TAGS = "__all__";
+
+type FolderDialogState =
+  | { mode: "create"; parentId: string | null }
+  | { mode: "rename"; folder: ConversationFolder };
+
+export const ConversationSidebar = ({
+  currentConversationId,
+  onSelectConversation,
+  onSelectSearchResult,
   onNewChat,
   onConversationDeleted,
-  refreshTrigger = 0 // Default to 0
+  refreshTrigger = 0, // Default to 0
+  collaborators = []
 }: ConversationSidebarProps) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [folders, setFolders] = useState<ConversationFolder[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [folderDialog, setFolderDialog] = useState<FolderDialogState | null>(null);
+  const [taggingConversation, setTaggingConversation] = useState<Conversation | null>(null);
+  // Conversations offered in the bulk export dialog, captured when it opens
+  const [exportCandidates, setExportCandidates] = useState<Conversation[] | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [sharingConversation, setSharingConversation] = useState<Conversation | null>(null);
+  const [isRootDragOver, setIsRootDragOver] = useState(false);
+  const { results: searchResults, loading: searching } = useMessageSearch(searchQuery);
+  const { user } = useAuth();
+  const { activeWorkspace, canEdit, loading: workspacesLoading } = useWorkspace();
+  const workspaceId = activeWorkspace?.id ?? null;
 
-  const loadConversations = async () => {
+  const loadConversations = useCallback(async () => {
     setLoading(true);
     try {
-      const conversationList = await getUserConversations();
+      const [conversationList, folderList] = await Promise.all([getUserConversations(workspaceId), getFolders()]);
       console.log("Loaded conversations:", conversationList.length);
       setConversations(conversationList);
+      setFolders(folderList);
     } catch (error) {
       console.error("Error loading conversations:", error);
       toast.error("Failed to load conversations");
     } finally {
       setLoading(false);
     }
-  };
+  }, [workspaceId]);
 
-  // Load conversations when component mounts or refreshTrigger changes
+  // Load conversations when component mounts, refreshTrigger changes or the workspace is switched
   useEffect(() => {
-    loadConversations();
-  }, [refreshTrigger]); // Refresh when triggerRefresh changes
+    if (!workspacesLoading) loadConversations();
+  }, [refreshTrigger, loadConversations, workspacesLoading]); // Refresh when triggerRefresh changes
 
-  const handleDeleteConversation = async (id: string, event: React.MouseEvent) => {
-    event.stopPropagation();
-    
+  // Conversations created, renamed or deleted elsewhere, e.g. by another member of the workspace
+  useEffect(() => {
+    if (!user || workspacesLoading) return;
+    return subscribeToConversations({ workspaceId, userId: user.id }, {
+      // The row carries no organization, so keep this user's folder, tags, pin and archive state
+      onChange: (row) => setConversations(prev => {
+        const existing = prev.find(conv => conv.id === row.id);
+        const conversation = existing ? { ...existing, ...row } : toConversation(row);
+        return [conversation, ...prev.filter(conv => conv.id !== row.id)]
+          .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
+      }),
+      onRemove: (id) => setConversations(prev => prev.filter(conv => conv.id !== id)),
+    });
+  }, [user, workspaceId, workspacesLoading]);
+
+  const titlesById = new Map(conversations.map(conv => [conv.id, conv.title]));
+  const allTags = [...new Set(conversations.flatMap(conv => conv.tags))].sort();
+
+  const handleDeleteConversation = async (id: string) => {
     try {
       const success = await deleteConversation(id);
       if (success) {
         toast.success("Conversation deleted");
         setConversations(prev => prev.filter(conv => conv.id !== id));
-        
+
         // If the deleted conversation is the current one, notify parent
         if (id === currentConversationId && onConversationDeleted) {
           onConversationDeleted();
@@ -67,66 +143,352 @@ export const ConversationSidebar = ({
     }
   };
 
+  const handleOrganize = async (id: string, changes: ConversationOrganization) => {
+    if (await updateConversationOrganization(id, changes)) {
+      setConversations(prev => prev.map(conv => conv.id === id ? { ...conv, ...changes } : conv));
+    }
+  };
+
+  // Titles typed by the user are marked manual so a generated title never replaces them
+  const handleRename = async (id: string, title: string) => {
+    if (await updateConversationTitle(id, title, "manual")) {
+      setConversations(prev => prev.map(conv => conv.id === id ? { ...conv, title, title_source: "manual" } : conv));
+    }
+  };
+
+  const handleExport = async (conversation: Conversation, exportFormat: ExportFormat) => {
+    if (await exportConversations([conversation], exportFormat)) {
+      toast.success(`Exported "${conversation.title}"`);
+    }
+  };
+
+  // Dropping onto a folder files a conversation in it or nests a folder under it; null is the top level
+  const handleDrop = async (folderId: string | null, item: SidebarDragItem) => {
+    if (item.kind === "conversation") {
+      const conversation = conversations.find(conv => conv.id === item.id);
+      if (conversation && conversation.folder_id !== folderId) {
+        await handleOrganize(item.id, { folder_id: folderId });
+      }
+      return;
+    }
+
+    const folder = folders.find(candidate => candidate.id === item.id);
+    if (!folder || folder.parent_id === folderId) return;
+    if (isWithinFolder(folders, folderId, folder.id)) {
+      toast.error("A folder cannot be moved into itself");
+      return;
+    }
+    if (await moveFolder(folder.id, folderId)) {
+      setFolders(prev => prev.map(candidate => candidate.id === folder.id ? { ...candidate, parent_id: folderId } : candidate));
+      if (folderId) setExpandedFolders(prev => new Set(prev).add(folderId));
+    }
+  };
+
+  const handleFolderDialogSubmit = async (name: string) => {
+    if (!folderDialog) return;
+
+    if (folderDialog.mode === "create") {
+      const folder = await createFolder(name, folderDialog.parentId);
+      if (folder) {
+        setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+        if (folderDialog.parentId) setExpandedFolders(prev => new Set(prev).add(folderDialog.parentId));
+      }
+    } else if (await renameFolder(folderDialog.folder.id, name)) {
+      const { id } = folderDialog.folder;
+      setFolders(prev => prev
+        .map(folder => folder.id === id ? { ...folder, name } : folder)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    setFolderDialog(null);
+  };
+
+  const handleDeleteFolder = async (folder: ConversationFolder) => {
+    if (!(await deleteFolder(folder.id))) return;
+
+    // Subfolders go with it and their conversations move to the top level, as in the database
+    const removed = new Set(folders.filter(candidate => isWithinFolder(folders, candidate.id, folder.id)).map(f => f.id));
+    setFolders(prev => prev.filter(candidate => !removed.has(candidate.id)));
+    setConversations(prev => prev.map(conv =>
+      conv.folder_id && removed.has(conv.folder_id) ? { ...conv, folder_id: null } : conv
+    ));
+    toast.success(`Deleted folder "${folder.name}"`);
+  };
+
+  const toggleFolder = (folderId: string) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const renderConversation = (conversation: Conversation) => (
+    <ConversationListItem
+      key={conversation.id}
+      conversation={conversation}
+      isCurrent={currentConversationId === conversation.id}
+      parentTitle={conversation.parent_conversation_id ? titlesById.get(conversation.parent_conversation_id) : undefined}
+      folders={folders}
+      readOnly={!canEdit}
+      viewers={collaborators.filter(collaborator => collaborator.conversationId === conversation.id)}
+      onSelect={onSelectConversation}
+      onOrganize={(changes) => handleOrganize(conversation.id, changes)}
+      onEditTags={() => setTaggingConversation(conversation)}
+      onRename={(title) => handleRename(conversation.id, title)}
+      onExport={(exportFormat) => handleExport(conversation, exportFormat)}
+      onShare={() => setSharingConversation(conversation)}
+      onDelete={() => handleDeleteConversation(conversation.id)}
+    />
+  );
+
+  // Archived conversations only show up in the archive view
+  const visible = conversations.filter(conv =>
+    (showArchived ? conv.archived_at : !conv.archived_at) && (!tagFilter || conv.tags.includes(tagFilter))
+  );
+  // A filtered view is a flat list; the default view groups pinned, foldered and loose conversations
+  const isFiltered = showArchived || tagFilter !== null;
+  const pinned = visible.filter(conv => conv.pinned);
+  const conversationsByFolder = new Map<string, Conversation[]>();
+  for (const conv of visible) {
+    if (conv.pinned || !conv.folder_id) continue;
+    conversationsByFolder.set(conv.folder_id, [...(conversationsByFolder.get(conv.folder_id) ?? []), conv]);
+  }
+  const unfiled = visible.filter(conv => !conv.pinned && !conv.folder_id);
+
+  const renderConversationList = () => {
+    if (isFiltered) {
+      return visible.length > 0 ? visible.map(renderConversation) : (
+        <div className="text-center text-sm text-muted-foreground p-4">
+          {showArchived ? "No archived conversations" : "No conversations with this tag"}
+        </div>
+      );
+    }
+
+    if (conversations.length === 0 && folders.length === 0) {
+      return (
+        <div className="text-center text-sm text-muted-foreground p-4">
+          No conversations yet
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {pinned.length > 0 && (
+          <div className="space-y-1 pb-2">
+            <p className="px-3 text-xs font-medium text-muted-foreground">Pinned</p>
+            {pinned.map(renderConversation)}
+          </div>
+        )}
+        <FolderTree
+          folders={folders}
+          conversationsByFolder={conversationsByFolder}
+          expanded={expandedFolders}
+          onToggle={toggleFolder}
+          onDrop={handleDrop}
+          onNewSubfolder={(folder) => setFolderDialog({ mode: "create", parentId: folder.id })}
+          onRename={(folder) => setFolderDialog({ mode: "rename", folder })}
+          onDelete={handleDeleteFolder}
+          renderConversation={renderConversation}
+        />
+        {/* Dropping here takes a conversation or folder out of its folder */}
+        <div
+          className={cn("min-h-16 space-y-1 rounded-md", isRootDragOver && "bg-podcast-primary/10 ring-1 ring-podcast-primary")}
+          onDragOver={(event) => {
+            if (!isSidebarDrag(event)) return;
+            event.preventDefault();
+            setIsRootDragOver(true);
+          }}
+          onDragLeave={() => setIsRootDragOver(false)}
+          onDrop={(event) => {
+            event.preventDefault();
+            setIsRootDragOver(false);
+            const item = getDragItem(event);
+            if (item) handleDrop(null, item);
+          }}
+        >
+          {unfiled.map(renderConversation)}
+        </div>
+      </>
+    );
+  };
+
   return (
     <div className="w-64 border-r border-border/40 bg-background/95 h-full flex flex-col">
       <div className="p-4">
-        <Button 
-          variant="outline" 
+        <Button
+          variant="outline"
           className="w-full justify-start bg-muted/50 hover:bg-muted"
           onClick={onNewChat}
+          disabled={!canEdit}
         >
           <MessageSquare className="mr-2 h-4 w-4" />
           New Chat
         </Button>
+        <div className="relative mt-3">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search messages"
+            className="h-9 pl-8 pr-8"
+          />
+          {searchQuery ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="absolute right-1 top-1/2 h-7 w-7 -translate-y-1/2"
+              onClick={() => setSearchQuery("")}
+              title="Clear search"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          ) : (
+            <kbd className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 rounded border px-1 text-[10px] text-muted-foreground">
+              ⌘K
+            </kbd>
+          )}
+        </div>
+        {!searchQuery.trim() && (
+          <div className="mt-2 flex items-center gap-1">
+            <Select
+              value={tagFilter ?? ALL_TAGS}
+              onValueChange={(value) => setTagFilter(value === ALL_TAGS ? null : value)}
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+                {allTags.map(tag => (
+                  <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-8 w-8", showArchived && "bg-muted text-podcast-primary")}
+              onClick={() => setShowArchived(prev => !prev)}
+              title={showArchived ? "Hide archived" : "Show archived"}
+            >
+              <Archive className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setFolderDialog({ mode: "create", parentId: null })}
+              title="New folder"
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setExportCandidates(visible)}
+              disabled={visible.length === 0}
+              title="Export conversations"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setImportOpen(true)}
+              disabled={!canEdit}
+              title="Import conversations"
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
       </div>
-      
+
       <ScrollArea className="flex-1 px-2">
         <div className="space-y-1 py-2">
-          {loading ? (
-            <div className="flex justify-center p-4">
-              <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-podcast-primary"></div>
-            </div>
-          ) : conversations.length > 0 ? (
-            conversations.map((conversation) => (
-              <div 
-                key={conversation.id}
-                className="group relative"
-              >
-                <Button
-                  variant="ghost"
-                  size="sm"
+          {searchQuery.trim() ? (
+            searching ? (
+              <div className="flex justify-center p-4">
+                <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-podcast-primary"></div>
+              </div>
+            ) : searchResults.length > 0 ? (
+              searchResults.map((result) => (
+                <button
+                  key={result.messageId}
                   className={cn(
-                    "w-full justify-start text-left font-normal px-3 py-2 h-auto",
-                    currentConversationId === conversation.id && "bg-muted"
+                    "w-full rounded-md px-3 py-2 text-left hover:bg-muted",
+                    currentConversationId === result.conversationId && "bg-muted/50"
                   )}
-                  onClick={() => onSelectConversation(conversation.id)}
+                  onClick={() => onSelectSearchResult(result.conversationId, result.messageId)}
                 >
-                  <MessageSquare className="mr-2 h-4 w-4 shrink-0" />
-                  <div className="flex flex-col items-start truncate pr-6">
-                    <span className="truncate">{conversation.title}</span>
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(conversation.updated_at), 'MMM d, yyyy')}
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="truncate text-sm">{result.conversationTitle}</span>
+                    <span className="shrink-0 text-[10px] text-muted-foreground">
+                      {format(result.timestamp, 'MMM d')}
                     </span>
                   </div>
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="absolute right-1 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 h-6 w-6 transition-opacity"
-                  onClick={(event) => handleDeleteConversation(conversation.id, event)}
-                  title="Delete conversation"
-                >
-                  <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
-                </Button>
+                  <SearchSnippet snippet={result.snippet} />
+                </button>
+              ))
+            ) : (
+              <div className="text-center text-sm text-muted-foreground p-4">
+                No matching messages
               </div>
-            ))
-          ) : (
-            <div className="text-center text-sm text-muted-foreground p-4">
-              No conversations yet
+            )
+          ) : loading ? (
+            <div className="flex justify-center p-4">
+              <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-podcast-primary"></div>
             </div>
+          ) : (
+            renderConversationList()
           )}
         </div>
       </ScrollArea>
+
+      <FolderNameDialog
+        open={folderDialog !== null}
+        title={folderDialog?.mode === "rename" ? "Rename folder" : "New folder"}
+        initialName={folderDialog?.mode === "rename" ? folderDialog.folder.name : ""}
+        onClose={() => setFolderDialog(null)}
+        onSubmit={handleFolderDialogSubmit}
+      />
+
+      <ConversationTagsDialog
+        open={taggingConversation !== null}
+        tags={taggingConversation?.tags ?? []}
+        knownTags={allTags}
+        onClose={() => setTaggingConversation(null)}
+        onSave={async (tags) => {
+          if (taggingConversation) await handleOrganize(taggingConversation.id, { tags });
+          setTaggingConversation(null);
+        }}
+      />
+
+      <ExportConversationsDialog
+        open={exportCandidates !== null}
+        conversations={exportCandidates ?? []}
+        onClose={() => setExportCandidates(null)}
+      />
+
+      <ImportConversationsDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={loadConversations}
+      />
+
+      <ShareConversationDialog
+        open={sharingConversation !== null}
+        conversationId={sharingConversation?.id ?? null}
+        conversationTitle={sharingConversation?.title}
+        onClose={() => setSharingConversation(null)}
+      />
     </div>
   );
 };
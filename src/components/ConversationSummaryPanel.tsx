@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Message } from "@/services/geminiService";
+import { buildContextWindow } from "@/services/contextBuilder";
+import { ConversationContextState } from "@/services/summaryService";
+import { updateConversationSummary, updateContextTokenBudget } from "@/services/conversationService";
+
+interface ConversationSummaryPanelProps {
+  open: boolean;
+  onClose: () => void;
+  conversationId: string | null;
+  messages: Message[];
+  context: ConversationContextState;
+  onContextChange: (context: ConversationContextState) => void;
+}
+
+export const ConversationSummaryPanel = ({
+  open,
+  onClose,
+  conversationId,
+  messages,
+  context,
+  onContextChange
+}: ConversationSummaryPanelProps) => {
+  const [summary, setSummary] = useState("");
+  const [budget, setBudget] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSummary(context.summary ?? "");
+    setBudget(String(context.contextTokenBudget));
+  }, [context, open]);
+
+  const { included, dropped, usedTokens } = buildContextWindow(messages, context.contextTokenBudget);
+
+  const handleSave = async () => {
+    const tokenBudget = parseInt(budget, 10);
+    if (!conversationId) return;
+    if (!tokenBudget || tokenBudget <= 0) {
+      toast.error("The token budget must be a positive number");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const summarySaved = summary === (context.summary ?? "")
+        || await updateConversationSummary(conversationId, summary);
+      const budgetSaved = tokenBudget === context.contextTokenBudget
+        || await updateContextTokenBudget(conversationId, tokenBudget);
+
+      if (summarySaved && budgetSaved) {
+        onContextChange({ ...context, summary, contextTokenBudget: tokenBudget });
+        toast.success("Context settings saved");
+        onClose();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="flex flex-col gap-4 sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Conversation context</SheetTitle>
+          <SheetDescription>
+            The newest messages are sent in full up to the token budget. Older turns are
+            replaced by the running summary below, which is refreshed as the conversation grows.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="rounded-md bg-muted/50 p-3 text-xs text-muted-foreground">
+          {messages.length === 0
+            ? "No messages yet."
+            : `${included.length} of ${messages.length} messages fit in the budget (~${usedTokens} tokens). ` +
+              (dropped.length > 0
+                ? `${dropped.length} older messages are covered by the summary.`
+                : "Nothing needs summarizing yet.")}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="context-budget">History token budget</Label>
+          <Input
+            id="context-budget"
+            type="number"
+            min={1}
+            step={500}
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            disabled={!conversationId}
+          />
+        </div>
+
+        <div className="flex flex-1 flex-col space-y-2">
+          <Label htmlFor="context-summary">Running summary</Label>
+          <Textarea
+            id="context-summary"
+            className="flex-1 min-h-48"
+            placeholder="The summary appears here once older turns leave the context window."
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            disabled={!conversationId}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Close
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!conversationId || isSaving}
+            className="bg-podcast-primary hover:bg-podcast-secondary"
+          >
+            Save
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
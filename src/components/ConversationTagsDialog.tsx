@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+
+interface ConversationTagsDialogProps {
+  open: boolean;
+  tags: string[];
+  knownTags: string[]; // Tags used on other conversations, offered as suggestions
+  onClose: () => void;
+  onSave: (tags: string[]) => void;
+}
+
+// Tags are stored lowercase so "Interview" and "interview" are the same filter
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+export const ConversationTagsDialog = ({ open, tags, knownTags, onClose, onSave }: ConversationTagsDialogProps) => {
+  const [draft, setDraft] = useState<string[]>(tags);
+  const [input, setInput] = useState("");
+
+  useEffect(() => {
+    setDraft(tags);
+    setInput("");
+  }, [tags, open]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !draft.includes(tag)) setDraft(prev => [...prev, tag]);
+    setInput("");
+  };
+
+  // Text still in the input counts as a tag, so Save does not silently drop it
+  const handleSave = () => {
+    const pending = normalizeTag(input);
+    onSave(pending && !draft.includes(pending) ? [...draft, pending] : draft);
+  };
+
+  const suggestions = knownTags.filter(tag => !draft.includes(tag) && tag.includes(normalizeTag(input)));
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription>Press Enter or comma to add a tag.</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-1">
+          {draft.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button onClick={() => setDraft(prev => prev.filter(item => item !== tag))} title={`Remove ${tag}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addTag(input);
+            }
+          }}
+          placeholder="e.g. episode-12"
+          autoFocus
+        />
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {suggestions.slice(0, 8).map(tag => (
+              <Badge key={tag} variant="outline" className="cursor-pointer" onClick={() => addTag(tag)}>
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            className="bg-podcast-primary hover:bg-podcast-secondary"
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,118 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Conversation } from "@/services/conversationService";
+import { EXPORT_FORMATS, ExportFormat, exportConversations } from "@/services/exportService";
+
+interface ExportConversationsDialogProps {
+  open: boolean;
+  conversations: Conversation[]; // The conversations currently listed, all selected when the dialog opens
+  onClose: () => void;
+}
+
+export const ExportConversationsDialog = ({ open, conversations, onClose }: ExportConversationsDialogProps) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown");
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelected(new Set(conversations.map(conv => conv.id)));
+  }, [open, conversations]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = conversations.length > 0 && selected.size === conversations.length;
+
+  const handleExport = async () => {
+    setExporting(true);
+    const chosen = conversations.filter(conv => selected.has(conv.id));
+    if (await exportConversations(chosen, exportFormat)) {
+      toast.success(`Exported ${chosen.length} ${chosen.length === 1 ? "conversation" : "conversations"}`);
+      onClose();
+    }
+    setExporting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export conversations</DialogTitle>
+          <DialogDescription>
+            The selected conversations are saved in one file, with their show, dates and models.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-all"
+              checked={allSelected}
+              onCheckedChange={(checked) =>
+                setSelected(checked === true ? new Set(conversations.map(conv => conv.id)) : new Set())
+              }
+            />
+            <Label htmlFor="export-all">Select all</Label>
+          </div>
+          <span className="text-xs text-muted-foreground">{selected.size} selected</span>
+        </div>
+        <ScrollArea className="h-64 rounded-md border">
+          <div className="space-y-1 p-2">
+            {conversations.map(conv => (
+              <label
+                key={conv.id}
+                className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted"
+              >
+                <Checkbox
+                  checked={selected.has(conv.id)}
+                  onCheckedChange={(checked) => toggle(conv.id, checked === true)}
+                />
+                <span className="flex-1 truncate">{conv.title}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {format(new Date(conv.updated_at), 'MMM d')}
+                </span>
+              </label>
+            ))}
+          </div>
+        </ScrollArea>
+        <div className="flex items-center justify-end gap-2">
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+            <SelectTrigger className="mr-auto w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_FORMATS.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={selected.size === 0 || exporting}
+            className="bg-podcast-primary hover:bg-podcast-secondary"
+          >
+            {exporting ? "Exporting..." : "Export"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface FolderNameDialogProps {
+  open: boolean;
+  title: string;
+  initialName?: string;
+  placeholder?: string;
+  onClose: () => void;
+  onSubmit: (name: string) => void;
+}
+
+export const FolderNameDialog = ({
+  open,
+  title,
+  initialName = "",
+  placeholder = "e.g. Season 2",
+  onClose,
+  onSubmit
+}: FolderNameDialogProps) => {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    setName(initialName);
+  }, [initialName, open]);
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    onSubmit(name.trim());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+          placeholder={placeholder}
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!name.trim()}
+            className="bg-podcast-primary hover:bg-podcast-secondary"
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
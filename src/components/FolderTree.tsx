@@ -0,0 +1,127 @@
+import { useState, ReactNode } from "react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger
+} from "@/components/ui/context-menu";
+import { ChevronRight, Folder, FolderOpen, FolderPlus, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SidebarDragItem, getDragItem, isSidebarDrag, setDragItem } from "@/lib/sidebarDrag";
+import { Conversation } from "@/services/conversationService";
+import { ConversationFolder } from "@/services/folderService";
+
+interface FolderTreeProps {
+  folders: ConversationFolder[];
+  conversationsByFolder: Map<string, Conversation[]>;
+  expanded: Set<string>;
+  onToggle: (folderId: string) => void;
+  onDrop: (folderId: string, item: SidebarDragItem) => void;
+  onNewSubfolder: (folder: ConversationFolder) => void;
+  onRename: (folder: ConversationFolder) => void;
+  onDelete: (folder: ConversationFolder) => void;
+  renderConversation: (conversation: Conversation) => ReactNode;
+}
+
+interface FolderNodeProps extends FolderTreeProps {
+  folder: ConversationFolder;
+}
+
+// Number of conversations in a folder and all of its subfolders
+const countConversations = (
+  folderId: string,
+  folders: ConversationFolder[],
+  conversationsByFolder: Map<string, Conversation[]>
+): number =>
+  (conversationsByFolder.get(folderId)?.length ?? 0) +
+  folders
+    .filter(folder => folder.parent_id === folderId)
+    .reduce((sum, child) => sum + countConversations(child.id, folders, conversationsByFolder), 0);
+
+const FolderNode = ({ folder, ...props }: FolderNodeProps) => {
+  const { folders, conversationsByFolder, expanded, onToggle, onDrop, renderConversation } = props;
+  const [isDragOver, setIsDragOver] = useState(false);
+  const isExpanded = expanded.has(folder.id);
+  const children = folders.filter(child => child.parent_id === folder.id);
+  const conversations = conversationsByFolder.get(folder.id) ?? [];
+
+  return (
+    <div>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            draggable
+            onDragStart={(event) => {
+              event.stopPropagation();
+              setDragItem(event, { kind: "folder", id: folder.id });
+            }}
+            onDragOver={(event) => {
+              if (!isSidebarDrag(event)) return;
+              event.preventDefault();
+              event.stopPropagation();
+              setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={(event) => {
+              event.preventDefault();
+              event.stopPropagation();
+              setIsDragOver(false);
+              const item = getDragItem(event);
+              if (item) onDrop(folder.id, item);
+            }}
+            onClick={() => onToggle(folder.id)}
+            className={cn(
+              "flex cursor-pointer items-center gap-1.5 rounded-md px-2 py-1.5 text-sm hover:bg-muted",
+              isDragOver && "bg-podcast-primary/20 ring-1 ring-podcast-primary"
+            )}
+          >
+            <ChevronRight className={cn("h-3.5 w-3.5 shrink-0 transition-transform", isExpanded && "rotate-90")} />
+            {isExpanded ? <FolderOpen className="h-4 w-4 shrink-0" /> : <Folder className="h-4 w-4 shrink-0" />}
+            <span className="flex-1 truncate">{folder.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {countConversations(folder.id, folders, conversationsByFolder)}
+            </span>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-48">
+          <ContextMenuItem onSelect={() => props.onNewSubfolder(folder)}>
+            <FolderPlus className="mr-2 h-4 w-4" />
+            New subfolder
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => props.onRename(folder)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Rename
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem className="text-destructive focus:text-destructive" onSelect={() => props.onDelete(folder)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete folder
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+      {isExpanded && (
+        <div className="ml-3 space-y-1 border-l border-border/40 pl-1">
+          {children.map(child => (
+            <FolderNode key={child.id} {...props} folder={child} />
+          ))}
+          {conversations.map(renderConversation)}
+          {children.length === 0 && conversations.length === 0 && (
+            <p className="px-3 py-1 text-xs text-muted-foreground">Drag conversations here</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Top-level folders with their subfolders and conversations nested below them
+export const FolderTree = (props: FolderTreeProps) => (
+  <div className="space-y-1">
+    {props.folders
+      .filter(folder => folder.parent_id === null)
+      .map(folder => (
+        <FolderNode key={folder.id} {...props} folder={folder} />
+      ))}
+  </div>
+);
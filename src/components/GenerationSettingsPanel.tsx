@@ -0,0 +1,257 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { DEFAULT_GENERATION_SETTINGS, GenerationSettings, ProviderId, getProvider } from "@/services/providers";
+
+interface GenerationSettingsPanelProps {
+  open: boolean;
+  onClose: () => void;
+  provider: ProviderId;
+  settings: GenerationSettings;
+  onSave: (settings: GenerationSettings) => Promise<boolean>;
+  readOnly?: boolean; // Workspace viewers can look at the settings but not change them
+}
+
+// Radix Select items cannot have an empty value, so this stands in for the provider default
+const DEFAULT_MODEL = "__default__";
+const MAX_CANDIDATES = 4;
+
+const parseStopSequences = (text: string) => text.split("\n").filter(item => item !== "");
+
+export const GenerationSettingsPanel = ({
+  open,
+  onClose,
+  provider,
+  settings,
+  onSave,
+  readOnly = false
+}: GenerationSettingsPanelProps) => {
+  const [form, setForm] = useState(settings);
+  const [stopSequences, setStopSequences] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { label, models, maxStopSequences } = getProvider(provider);
+  const stopSequenceCount = parseStopSequences(stopSequences).length;
+  const tooManyStopSequences = maxStopSequences !== null && stopSequenceCount > maxStopSequences;
+
+  useEffect(() => {
+    setForm(settings);
+    setStopSequences(settings.stopSequences.join("\n"));
+  }, [settings, open]);
+
+  const setNumber = (field: "topK" | "maxOutputTokens" | "candidateCount") =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm(prev => ({ ...prev, [field]: parseInt(e.target.value, 10) || 0 }));
+
+  const handleReset = () => {
+    setForm(DEFAULT_GENERATION_SETTINGS);
+    setStopSequences("");
+  };
+
+  const handleSave = async () => {
+    if (form.maxOutputTokens <= 0 || form.topK <= 0) {
+      toast.error("Max output tokens and top-k must be positive numbers");
+      return;
+    }
+    if (form.candidateCount < 1 || form.candidateCount > MAX_CANDIDATES) {
+      toast.error(`Candidate count must be between 1 and ${MAX_CANDIDATES}`);
+      return;
+    }
+    if (tooManyStopSequences) return;
+
+    // A listed provider only accepts its own models; anything else goes back to the default
+    const model = form.model?.trim() || null;
+    setIsSaving(true);
+    try {
+      const saved = await onSave({
+        ...form,
+        model: model && models.length > 0 && !models.includes(model) ? null : model,
+        stopSequences: parseStopSequences(stopSequences),
+      });
+      if (saved) {
+        toast.success("Generation settings saved");
+        onClose();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="flex flex-col gap-4 sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Generation settings</SheetTitle>
+          <SheetDescription>
+            Applied to every reply in this conversation. Options the {label} provider does not
+            support are ignored.
+            {readOnly && " Only editors of this workspace can change them."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 pr-3">
+          <div className="space-y-5 py-1">
+            <div className="space-y-2">
+              <Label htmlFor="generation-model">Model</Label>
+              {models.length > 0 ? (
+                <Select
+                  disabled={readOnly}
+                  value={form.model && models.includes(form.model) ? form.model : DEFAULT_MODEL}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, model: value === DEFAULT_MODEL ? null : value }))}
+                >
+                  <SelectTrigger id="generation-model">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_MODEL}>Provider default</SelectItem>
+                    {models.map(model => (
+                      <SelectItem key={model} value={model}>{model}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id="generation-model"
+                  disabled={readOnly}
+                  placeholder="Provider default"
+                  value={form.model ?? ""}
+                  onChange={(e) => setForm(prev => ({ ...prev, model: e.target.value }))}
+                />
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>Temperature</Label>
+                <span className="text-xs text-muted-foreground">{form.temperature.toFixed(2)}</span>
+              </div>
+              <Slider
+                min={0}
+                max={2}
+                step={0.05}
+                disabled={readOnly}
+                value={[form.temperature]}
+                onValueChange={([value]) => setForm(prev => ({ ...prev, temperature: value }))}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>Top-p</Label>
+                <span className="text-xs text-muted-foreground">{form.topP.toFixed(2)}</span>
+              </div>
+              <Slider
+                min={0}
+                max={1}
+                step={0.05}
+                disabled={readOnly}
+                value={[form.topP]}
+                onValueChange={([value]) => setForm(prev => ({ ...prev, topP: value }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="generation-top-k">Top-k</Label>
+                <Input
+                  id="generation-top-k"
+                  type="number"
+                  min={1}
+                  disabled={readOnly}
+                  value={form.topK}
+                  onChange={setNumber("topK")}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="generation-max-tokens">Max tokens</Label>
+                <Input
+                  id="generation-max-tokens"
+                  type="number"
+                  min={1}
+                  step={1024}
+                  disabled={readOnly}
+                  value={form.maxOutputTokens}
+                  onChange={setNumber("maxOutputTokens")}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="generation-candidates">Candidates</Label>
+                <Input
+                  id="generation-candidates"
+                  type="number"
+                  min={1}
+                  max={MAX_CANDIDATES}
+                  disabled={readOnly}
+                  value={form.candidateCount}
+                  onChange={setNumber("candidateCount")}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Extra candidates are saved as alternative versions of each reply.
+            </p>
+
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="generation-auto-continue">Continue long replies automatically</Label>
+                <p className="text-xs text-muted-foreground">
+                  When a reply hits the max token limit, ask for the rest right away instead of
+                  showing a Continue button.
+                </p>
+              </div>
+              <Switch
+                id="generation-auto-continue"
+                disabled={readOnly}
+                checked={form.autoContinue}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, autoContinue: checked }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="generation-stop">
+                Stop sequences (one per line{maxStopSequences !== null && `, at most ${maxStopSequences}`})
+              </Label>
+              <Textarea
+                id="generation-stop"
+                disabled={readOnly}
+                value={stopSequences}
+                onChange={(e) => setStopSequences(e.target.value)}
+                aria-invalid={tooManyStopSequences}
+              />
+              {tooManyStopSequences && (
+                <p className="text-xs text-destructive">
+                  {label} accepts at most {maxStopSequences} stop sequences; remove {stopSequenceCount - maxStopSequences}.
+                </p>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-between gap-2">
+          <Button variant="ghost" onClick={handleReset} disabled={isSaving || readOnly}>
+            Reset to defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Close
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || readOnly || tooManyStopSequences}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CheckCircle2, Circle, CopyCheck, Loader2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  IMPORT_SOURCE_LABELS,
+  ImportStatus,
+  ParsedImport,
+  importConversations,
+  parseImportFile
+} from "@/services/importService";
+import { useWorkspace } from "@/hooks/use-workspace";
+
+interface ImportConversationsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void; // Called once an import has added at least one conversation
+}
+
+interface RowState {
+  status: ImportStatus;
+  error?: string;
+}
+
+const STATUS_ICONS: Record<ImportStatus, JSX.Element> = {
+  pending: <Circle className="h-4 w-4 text-muted-foreground" />,
+  importing: <Loader2 className="h-4 w-4 animate-spin text-podcast-primary" />,
+  imported: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  duplicate: <CopyCheck className="h-4 w-4 text-muted-foreground" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+export const ImportConversationsDialog = ({ open, onClose, onImported }: ImportConversationsDialogProps) => {
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [rows, setRows] = useState<RowState[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [finished, setFinished] = useState(false);
+  const { activeWorkspace } = useWorkspace();
+
+  useEffect(() => {
+    if (!open) return;
+    setParsed(null);
+    setFileError(null);
+    setRows([]);
+    setFinished(false);
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFinished(false);
+    try {
+      const result = parseImportFile(await file.text());
+      setParsed(result);
+      setFileError(null);
+      setRows(result.conversations.map(() => ({ status: "pending" })));
+    } catch (error) {
+      setParsed(null);
+      setRows([]);
+      setFileError(error instanceof Error ? error.message : "Could not read the file");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setImporting(true);
+    try {
+      const summary = await importConversations(parsed, activeWorkspace?.id ?? null, (index, status, error) => {
+        setRows(prev => prev.map((row, i) => i === index ? { status, error } : row));
+      });
+      const skipped = summary.duplicates > 0 ? `, ${summary.duplicates} already imported` : "";
+      const failed = summary.failed > 0 ? `, ${summary.failed} failed` : "";
+      toast.success(`Imported ${summary.imported} ${summary.imported === 1 ? "conversation" : "conversations"}${skipped}${failed}`);
+      if (summary.imported > 0) onImported();
+    } catch (error) {
+      console.error("Error importing conversations:", error);
+      toast.error("Failed to import conversations");
+    } finally {
+      setImporting(false);
+      setFinished(true);
+    }
+  };
+
+  const done = rows.filter(row => row.status !== "pending" && row.status !== "importing").length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !importing && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import conversations</DialogTitle>
+          <DialogDescription>
+            Choose the conversations.json from a ChatGPT data export, or a PodcastGPT JSON export.
+            Conversations that were imported before are skipped.
+            {activeWorkspace && ` They are added to ${activeWorkspace.name}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="file"
+          accept=".json,application/json"
+          disabled={importing}
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+        {parsed && (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {parsed.conversations.length} {parsed.conversations.length === 1 ? "conversation" : "conversations"} from{" "}
+                {IMPORT_SOURCE_LABELS[parsed.source]}
+              </span>
+              {(importing || finished) && (
+                <span className="text-xs text-muted-foreground">{done} / {rows.length}</span>
+              )}
+            </div>
+            {(importing || finished) && <Progress value={rows.length > 0 ? done / rows.length * 100 : 0} />}
+            <ScrollArea className="h-64 rounded-md border">
+              <div className="space-y-1 p-2">
+                {parsed.conversations.map((candidate, index) => {
+                  const row = rows[index] ?? { status: "pending" };
+                  return (
+                    <div key={index} className="flex items-start gap-2 rounded-md px-2 py-1.5 text-sm">
+                      <span className="mt-0.5 shrink-0" title={row.status}>{STATUS_ICONS[row.status]}</span>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate">{candidate.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {row.error ?? (row.status === "duplicate"
+                            ? "Already imported"
+                            : `${candidate.messages.length} messages · ${format(candidate.createdAt, 'MMM d, yyyy')}`)}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={importing}>
+            {finished ? "Close" : "Cancel"}
+          </Button>
+          {!finished && (
+            <Button
+              onClick={handleImport}
+              disabled={!parsed || importing}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              {importing ? "Importing..." : "Import"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  PersonaPreset,
+  createPersonaPreset,
+  deletePersonaPreset,
+  getPersonaPrompt,
+  savePersonaPreset
+} from "@/services/personaService";
+import { useWorkspace } from "@/hooks/use-workspace";
+
+interface PersonaDialogProps {
+  open: boolean;
+  onClose: () => void;
+  preset: PersonaPreset | null; // null creates a new preset
+  onSaved: (preset: PersonaPreset) => void;
+  onDeleted: (id: string) => void;
+}
+
+export const PersonaDialog = ({ open, onClose, preset, onSaved, onDeleted }: PersonaDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { activeWorkspace } = useWorkspace();
+
+  useEffect(() => {
+    setName(preset?.name ?? "");
+    setDescription(preset?.description ?? "");
+    setSystemPrompt(preset ? getPersonaPrompt(preset, preset.current_version) ?? "" : "");
+  }, [preset, open]);
+
+  // Loading an older version only fills the editor; saving it records it as a new version
+  const handleLoadVersion = (version: string) => {
+    if (!preset) return;
+    setSystemPrompt(getPersonaPrompt(preset, parseInt(version, 10)) ?? "");
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim() || !systemPrompt.trim()) {
+      toast.error("A persona needs a name and a system prompt");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const saved = preset
+        ? await savePersonaPreset(preset, name.trim(), description.trim() || null, systemPrompt.trim())
+        : await createPersonaPreset(
+          name.trim(),
+          description.trim() || null,
+          systemPrompt.trim(),
+          activeWorkspace?.id ?? null
+        );
+
+      if (saved) {
+        onSaved(saved);
+        toast.success(preset && saved.current_version > preset.current_version
+          ? `Saved as version ${saved.current_version}`
+          : "Persona saved");
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!preset) return;
+    setIsSubmitting(true);
+    try {
+      if (await deletePersonaPreset(preset.id)) {
+        onDeleted(preset.id);
+        toast.success("Persona deleted");
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{preset ? "Edit persona" : "New persona"}</DialogTitle>
+          <DialogDescription>
+            Editing the prompt saves a new version. Conversations keep the version they were started with.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="persona-name">Name</Label>
+            <Input id="persona-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="persona-description">Description</Label>
+            <Input id="persona-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="persona-prompt">System prompt</Label>
+              {preset && preset.versions.length > 1 && (
+                <Select onValueChange={handleLoadVersion}>
+                  <SelectTrigger className="h-7 w-[190px] text-xs">
+                    <SelectValue placeholder={`Version ${preset.current_version} (current)`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...preset.versions].reverse().map(version => (
+                      <SelectItem key={version.id} value={String(version.version)} className="text-xs">
+                        Version {version.version} · {format(new Date(version.created_at), "MMM d, yyyy")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <Textarea
+              id="persona-prompt"
+              className="min-h-48"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-between gap-2">
+          {preset ? (
+            <Button variant="ghost" className="text-destructive" onClick={handleDelete} disabled={isSubmitting}>
+              Delete
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              Save Persona
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Pencil } from "lucide-react";
+import { PersonaDialog } from "@/components/PersonaDialog";
+import { PersonaPreset } from "@/services/personaService";
+import { PersonaSelection } from "@/services/conversationService";
+
+interface PersonaSelectorProps {
+  presets: PersonaPreset[];
+  value: PersonaSelection | null;
+  onChange: (persona: PersonaSelection | null) => void;
+  onPresetsChange: (presets: PersonaPreset[]) => void;
+  disabled?: boolean;
+}
+
+// Radix Select items cannot have an empty value, so these stand in for "default" and "create"
+const DEFAULT_PERSONA = "__default__";
+const NEW_PERSONA = "__new__";
+
+export const PersonaSelector = ({ presets, value, onChange, onPresetsChange, disabled }: PersonaSelectorProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPreset, setEditingPreset] = useState<PersonaPreset | null>(null);
+  const currentPreset = presets.find(preset => preset.id === value?.presetId) ?? null;
+  // A deleted preset can no longer be picked or edited, but a conversation that pinned it keeps it
+  const isDeleted = !!currentPreset?.deleted_at;
+  const isOutdated = !isDeleted && !!currentPreset && !!value && value.version < currentPreset.current_version;
+  const listedPresets = presets.filter(preset => !preset.deleted_at || preset.id === currentPreset?.id);
+
+  const handleValueChange = (selected: string) => {
+    if (selected === NEW_PERSONA) {
+      setEditingPreset(null);
+      setDialogOpen(true);
+      return;
+    }
+    const preset = presets.find(item => item.id === selected);
+    // Picking a preset pins its latest version
+    onChange(preset ? { presetId: preset.id, version: preset.current_version } : null);
+  };
+
+  const handleSaved = (saved: PersonaPreset) => {
+    const exists = presets.some(preset => preset.id === saved.id);
+    onPresetsChange(exists
+      ? presets.map(preset => preset.id === saved.id ? saved : preset)
+      : [...presets, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    if (!exists) onChange({ presetId: saved.id, version: saved.current_version });
+  };
+
+  const handleDeleted = (id: string) => {
+    const deletedAt = new Date().toISOString();
+    onPresetsChange(presets.map(preset => preset.id === id ? { ...preset, deleted_at: deletedAt } : preset));
+    if (value?.presetId === id) onChange(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={currentPreset?.id ?? DEFAULT_PERSONA} onValueChange={handleValueChange} disabled={disabled}>
+        <SelectTrigger className="h-8 w-[200px] text-xs">
+          <SelectValue placeholder="Default PodcastGPT" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_PERSONA} className="text-xs">Default PodcastGPT</SelectItem>
+          {listedPresets.map(preset => (
+            <SelectItem key={preset.id} value={preset.id} className="text-xs">
+              {preset.deleted_at ? `${preset.name} (deleted)` : preset.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_PERSONA} className="text-xs">New persona...</SelectItem>
+        </SelectContent>
+      </Select>
+      {currentPreset && value && (
+        <>
+          <Badge variant="outline" className="text-xs font-normal text-muted-foreground">
+            v{value.version}
+          </Badge>
+          {isOutdated && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-1 text-xs"
+              onClick={() => onChange({ presetId: currentPreset.id, version: currentPreset.current_version })}
+              disabled={disabled}
+            >
+              Use v{currentPreset.current_version}
+            </Button>
+          )}
+          {!isDeleted && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground"
+              onClick={() => {
+                setEditingPreset(currentPreset);
+                setDialogOpen(true);
+              }}
+              title="Edit persona"
+              disabled={disabled}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </>
+      )}
+      <PersonaDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        preset={editingPreset}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { getProvider, getProviderSettings, setProviderSettings, ProviderId } from "@/services/providers";
+
+interface ProviderConfigModalProps {
+  provider: ProviderId;
+  open: boolean;
+  onClose: () => void;
+  onManageKeys: () => void;
+}
+
+export const ProviderConfigModal = ({ provider, open, onClose, onManageKeys }: ProviderConfigModalProps) => {
+  const [baseUrl, setBaseUrl] = useState("");
+  const [model, setModel] = useState("");
+  const { label, description } = getProvider(provider);
+  const needsApiKey = provider === "openai";
+
+  useEffect(() => {
+    const settings = getProviderSettings(provider);
+    setBaseUrl(settings.baseUrl ?? "");
+    setModel(settings.model ?? "");
+  }, [provider, open]);
+
+  const handleSubmit = () => {
+    if (!baseUrl.trim()) {
+      toast.error("Please fill in the required settings");
+      return;
+    }
+    // The key vault proxy only calls public https endpoints
+    if (needsApiKey && !baseUrl.trim().startsWith("https://")) {
+      toast.error("The base URL must start with https://");
+      return;
+    }
+
+    setProviderSettings(provider, {
+      baseUrl: baseUrl.trim(),
+      model: model.trim(),
+    });
+    toast.success(`${label} settings saved`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{label} settings</DialogTitle>
+          <DialogDescription>
+            {description}. Settings are stored locally in your browser.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="provider-base-url">Base URL</Label>
+            <Input
+              id="provider-base-url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              className="bg-secondary/50"
+            />
+          </div>
+          {needsApiKey && (
+            <div className="flex items-center justify-between gap-3 rounded-md border p-3 text-xs text-muted-foreground">
+              <span>The API key is kept encrypted in your key vault, not in the browser.</span>
+              <Button variant="outline" size="sm" onClick={onManageKeys}>
+                API keys
+              </Button>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="provider-model">Model</Label>
+            <Input
+              id="provider-model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="bg-secondary/50"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              Save Settings
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,43 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Settings2 } from "lucide-react";
+import { PROVIDERS, ProviderId } from "@/services/providers";
+
+interface ProviderSelectorProps {
+  value: ProviderId;
+  onChange: (provider: ProviderId) => void;
+  onConfigure: () => void;
+  disabled?: boolean;
+}
+
+export const ProviderSelector = ({ value, onChange, onConfigure, disabled }: ProviderSelectorProps) => {
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={value}
+        onValueChange={(provider) => onChange(provider as ProviderId)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-9 w-[170px] text-xs">
+          <SelectValue placeholder="Choose a provider" />
+        </SelectTrigger>
+        <SelectContent>
+          {PROVIDERS.map((provider) => (
+            <SelectItem key={provider.id} value={provider.id} className="text-xs">
+              {provider.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-muted-foreground"
+        onClick={onConfigure}
+        title="Provider settings"
+      >
+        <Settings2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
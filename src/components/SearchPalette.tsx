@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from "@/components/ui/command";
+import { MessageSquare, User } from "lucide-react";
+import { SearchSnippet } from "@/components/SearchSnippet";
+import { useMessageSearch } from "@/hooks/use-message-search";
+
+interface SearchPaletteProps {
+  onSelectResult: (conversationId: string, messageId: string) => void;
+}
+
+// ⌘K / Ctrl+K palette searching every message the user has sent or received
+export const SearchPalette = ({ onSelectResult }: SearchPaletteProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { results, loading } = useMessageSearch(query);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setQuery("");
+  };
+
+  // Results are already ranked by Postgres, so cmdk's own filtering is turned off
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+      <CommandInput placeholder="Search all conversations..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {query.trim() && (
+          <CommandEmpty>{loading ? "Searching..." : "No matching messages"}</CommandEmpty>
+        )}
+        {results.length > 0 && (
+          <CommandGroup heading="Messages">
+            {results.map(result => (
+              <CommandItem
+                key={result.messageId}
+                value={result.messageId}
+                onSelect={() => {
+                  handleOpenChange(false);
+                  onSelectResult(result.conversationId, result.messageId);
+                }}
+                className="flex items-start gap-2"
+              >
+                {result.role === "assistant" ? (
+                  <MessageSquare className="mt-0.5 shrink-0" />
+                ) : (
+                  <User className="mt-0.5 shrink-0" />
+                )}
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex justify-between gap-2 text-sm">
+                    <span className="truncate">{result.conversationTitle}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {format(result.timestamp, "MMM d, yyyy")}
+                    </span>
+                  </div>
+                  <SearchSnippet snippet={result.snippet} />
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
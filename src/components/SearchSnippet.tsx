@@ -0,0 +1,22 @@
+import { cn } from "@/lib/utils";
+import { parseSnippet } from "@/services/searchService";
+
+interface SearchSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+// Renders a search_messages snippet with the matched words highlighted
+export const SearchSnippet = ({ snippet, className }: SearchSnippetProps) => (
+  <p className={cn("text-xs text-muted-foreground line-clamp-2", className)}>
+    {parseSnippet(snippet).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="rounded-sm bg-podcast-primary/30 px-0.5 text-foreground">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </p>
+);
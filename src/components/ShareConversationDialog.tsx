@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  ConversationShare,
+  createConversationShare,
+  getConversationShares,
+  isShareExpired,
+  revokeConversationShare,
+  shareUrl
+} from "@/services/shareService";
+
+interface ShareConversationDialogProps {
+  open: boolean;
+  conversationId: string | null;
+  conversationTitle?: string;
+  onClose: () => void;
+}
+
+// Radix Select items cannot have an empty value, so this stands for "no expiry"
+const NEVER = "never";
+
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+  { value: NEVER, label: "Never expires" },
+];
+
+export const ShareConversationDialog = ({
+  open,
+  conversationId,
+  conversationTitle,
+  onClose
+}: ShareConversationDialogProps) => {
+  const [shares, setShares] = useState<ConversationShare[]>([]);
+  const [expiry, setExpiry] = useState("7");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (open && conversationId) {
+      getConversationShares(conversationId).then(setShares);
+    }
+  }, [open, conversationId]);
+
+  const copyLink = async (share: ConversationShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Error copying share link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!conversationId) return;
+    setCreating(true);
+    const share = await createConversationShare(
+      conversationId,
+      expiry === NEVER ? null : addDays(new Date(), parseInt(expiry, 10))
+    );
+    setCreating(false);
+    if (share) {
+      setShares(prev => [share, ...prev]);
+      await copyLink(share);
+    }
+  };
+
+  const handleRevoke = async (share: ConversationShare) => {
+    if (await revokeConversationShare(share.id)) {
+      setShares(prev => prev.filter(item => item.id !== share.id));
+      toast.success("Link revoked");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share{conversationTitle ? ` "${conversationTitle}"` : ""}</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read this conversation without signing in. They cannot reply or see your
+            other conversations. Revoke a link to stop it working.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleCreate}
+            disabled={!conversationId || creating}
+            className="bg-podcast-primary hover:bg-podcast-secondary"
+          >
+            <Link2 className="mr-2 h-4 w-4" />
+            Create link
+          </Button>
+        </div>
+        {shares.length > 0 && (
+          <div className="space-y-2">
+            {shares.map(share => {
+              const expired = isShareExpired(share);
+              return (
+                <div key={share.id} className="space-y-1 rounded-md border p-2">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      readOnly
+                      value={shareUrl(share.token)}
+                      onFocus={(e) => e.target.select()}
+                      className={cn("h-8 text-xs", expired && "text-muted-foreground line-through")}
+                    />
+                    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => copyLink(share)} title="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleRevoke(share)}
+                      title="Revoke link"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {format(new Date(share.created_at), "MMM d, yyyy")}
+                    {" · "}
+                    {share.expires_at
+                      ? `${expired ? "Expired" : "Expires"} ${format(new Date(share.expires_at), "MMM d, yyyy HH:mm")}`
+                      : "No expiry"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Show, ShowInput, createShow, deleteShow, updateShow } from "@/services/showService";
+import { useWorkspace } from "@/hooks/use-workspace";
+import {
+  HARM_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  SafetyThreshold,
+  SafetyThresholds,
+  parseSafetyThresholds
+} from "@/services/providers";
+
+interface ShowDialogProps {
+  open: boolean;
+  onClose: () => void;
+  show: Show | null; // null creates a new show
+  onSaved: (show: Show) => void;
+  onDeleted: (id: string) => void;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  format: "",
+  episodeLength: "",
+  hosts: "",
+  targetAudience: "",
+  tone: "",
+  recurringSegments: "",
+  bannedTopics: "",
+};
+
+// One entry per line in the form, stored as a text array
+const toList = (text: string) => text.split("\n").map(item => item.trim()).filter(Boolean);
+
+export const ShowDialog = ({ open, onClose, show, onSaved, onDeleted }: ShowDialogProps) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [safety, setSafety] = useState<SafetyThresholds>(parseSafetyThresholds(null));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { activeWorkspace } = useWorkspace();
+
+  useEffect(() => {
+    setForm(show ? {
+      name: show.name,
+      description: show.description ?? "",
+      format: show.format ?? "",
+      episodeLength: show.episode_length_minutes ? String(show.episode_length_minutes) : "",
+      hosts: show.hosts ?? "",
+      targetAudience: show.target_audience ?? "",
+      tone: show.tone ?? "",
+      recurringSegments: show.recurring_segments.join("\n"),
+      bannedTopics: show.banned_topics.join("\n"),
+    } : EMPTY_FORM);
+    setSafety(parseSafetyThresholds(show?.safety_settings));
+  }, [show, open]);
+
+  const setField = (field: keyof typeof EMPTY_FORM) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async () => {
+    if (!form.name.trim()) {
+      toast.error("Please give the show a name");
+      return;
+    }
+
+    const input: ShowInput = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      format: form.format.trim() || null,
+      episode_length_minutes: parseInt(form.episodeLength, 10) || null,
+      hosts: form.hosts.trim() || null,
+      target_audience: form.targetAudience.trim() || null,
+      tone: form.tone.trim() || null,
+      recurring_segments: toList(form.recurringSegments),
+      banned_topics: toList(form.bannedTopics),
+      safety_settings: safety,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (show) {
+        if (await updateShow(show.id, input)) {
+          onSaved({ ...show, ...input });
+          toast.success("Show updated");
+          onClose();
+        }
+      } else {
+        const created = await createShow(input, activeWorkspace?.id ?? null);
+        if (created) {
+          onSaved(created);
+          toast.success("Show created");
+          onClose();
+        }
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!show) return;
+    setIsSubmitting(true);
+    try {
+      if (await deleteShow(show.id)) {
+        onDeleted(show.id);
+        toast.success("Show deleted");
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{show ? "Edit show" : "New show"}</DialogTitle>
+          <DialogDescription>
+            Conversations attached to this show send its profile to PodcastGPT with every message.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-3 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="show-name">Name</Label>
+              <Input id="show-name" value={form.name} onChange={setField("name")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="show-description">Description</Label>
+              <Textarea id="show-description" value={form.description} onChange={setField("description")} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="show-format">Format</Label>
+                <Input id="show-format" placeholder="Interview, narrative..." value={form.format} onChange={setField("format")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="show-length">Episode length (minutes)</Label>
+                <Input id="show-length" type="number" min={1} value={form.episodeLength} onChange={setField("episodeLength")} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="show-hosts">Hosts</Label>
+              <Input id="show-hosts" value={form.hosts} onChange={setField("hosts")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="show-audience">Target audience</Label>
+              <Input id="show-audience" value={form.targetAudience} onChange={setField("targetAudience")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="show-tone">Tone</Label>
+              <Input id="show-tone" placeholder="Warm, skeptical, playful..." value={form.tone} onChange={setField("tone")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="show-segments">Recurring segments (one per line)</Label>
+              <Textarea id="show-segments" value={form.recurringSegments} onChange={setField("recurringSegments")} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="show-banned">Banned topics (one per line)</Label>
+              <Textarea id="show-banned" value={form.bannedTopics} onChange={setField("bannedTopics")} />
+            </div>
+            <div className="space-y-2">
+              <Label>Safety filters (Gemini)</Label>
+              <p className="text-xs text-muted-foreground">
+                True-crime and history shows may need looser thresholds to discuss violence and past events.
+              </p>
+              {HARM_CATEGORIES.map(category => (
+                <div key={category.id} className="flex items-center justify-between gap-3">
+                  <span className="text-sm">{category.label}</span>
+                  <Select
+                    value={safety[category.id]}
+                    onValueChange={(threshold) => setSafety(prev => ({
+                      ...prev,
+                      [category.id]: threshold as SafetyThreshold
+                    }))}
+                  >
+                    <SelectTrigger className="h-8 w-[230px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SAFETY_THRESHOLDS.map(threshold => (
+                        <SelectItem key={threshold.id} value={threshold.id} className="text-xs">
+                          {threshold.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+        <div className="flex justify-between gap-2">
+          {show ? (
+            <Button variant="ghost" className="text-destructive" onClick={handleDelete} disabled={isSubmitting}>
+              Delete
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              Save Show
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Pencil } from "lucide-react";
+import { ShowDialog } from "@/components/ShowDialog";
+import { Show } from "@/services/showService";
+
+interface ShowSelectorProps {
+  shows: Show[];
+  value: string | null;
+  onChange: (showId: string | null) => void;
+  onShowsChange: (shows: Show[]) => void;
+  disabled?: boolean;
+}
+
+// Radix Select items cannot have an empty value, so these stand in for "no show" and "create"
+const NO_SHOW = "__none__";
+const NEW_SHOW = "__new__";
+
+export const ShowSelector = ({ shows, value, onChange, onShowsChange, disabled }: ShowSelectorProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingShow, setEditingShow] = useState<Show | null>(null);
+  const currentShow = shows.find(show => show.id === value) ?? null;
+
+  const handleValueChange = (selected: string) => {
+    if (selected === NEW_SHOW) {
+      setEditingShow(null);
+      setDialogOpen(true);
+      return;
+    }
+    onChange(selected === NO_SHOW ? null : selected);
+  };
+
+  const handleSaved = (saved: Show) => {
+    const exists = shows.some(show => show.id === saved.id);
+    onShowsChange(exists
+      ? shows.map(show => show.id === saved.id ? saved : show)
+      : [...shows, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    if (!exists) onChange(saved.id);
+  };
+
+  const handleDeleted = (id: string) => {
+    onShowsChange(shows.filter(show => show.id !== id));
+    if (value === id) onChange(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={currentShow?.id ?? NO_SHOW} onValueChange={handleValueChange} disabled={disabled}>
+        <SelectTrigger className="h-9 w-[160px] text-xs">
+          <SelectValue placeholder="No show" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SHOW} className="text-xs">No show</SelectItem>
+          {shows.map(show => (
+            <SelectItem key={show.id} value={show.id} className="text-xs">
+              {show.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_SHOW} className="text-xs">New show...</SelectItem>
+        </SelectContent>
+      </Select>
+      {currentShow && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground"
+          onClick={() => {
+            setEditingShow(currentShow);
+            setDialogOpen(true);
+          }}
+          title="Edit show profile"
+          disabled={disabled}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+      )}
+      <ShowDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        show={editingShow}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </div>
+  );
+};
@@ -1,47 +1,196 @@
+import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/context/AuthContext";
-import { LogOut, User } from "lucide-react";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { ApiKeyVaultDialog } from "@/components/ApiKeyVaultDialog";
+import { FolderNameDialog } from "@/components/FolderNameDialog";
+import { WorkspaceSettingsDialog } from "@/components/WorkspaceSettingsDialog";
+import { acceptWorkspaceInvite, createWorkspace, deleteWorkspaceInvite } from "@/services/workspaceService";
+import { BarChart3, Brain, Check, KeyRound, LogOut, Plus, Settings, User, Users, X } from "lucide-react";
+
+// Radix radio items cannot have an empty value, so this stands for the personal space
+const PERSONAL = "__personal__";
 
 export function UserMenu() {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const { workspaces, activeWorkspace, invites, switchWorkspace, refresh } = useWorkspace();
+  const [keyVaultOpen, setKeyVaultOpen] = useState(false);
+  const [createWorkspaceOpen, setCreateWorkspaceOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
 
   const handleSignOut = () => {
     signOut();
   };
 
+  const handleCreateWorkspace = async (name: string) => {
+    const id = await createWorkspace(name);
+    setCreateWorkspaceOpen(false);
+    if (id) {
+      await refresh();
+      switchWorkspace(id);
+      toast.success(`Created ${name}`);
+    }
+  };
+
+  const handleAcceptInvite = async (inviteId: string) => {
+    const id = await acceptWorkspaceInvite(inviteId);
+    if (id) {
+      await refresh();
+      switchWorkspace(id);
+      toast.success("Joined workspace");
+    }
+  };
+
+  const handleDeclineInvite = async (inviteId: string) => {
+    if (await deleteWorkspaceInvite(inviteId)) await refresh();
+  };
+
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="icon" className="rounded-full overflow-hidden">
-          <User className="h-[1.2rem] w-[1.2rem]" />
-          <span className="sr-only">User menu</span>
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-56">
-        <div className="flex items-center justify-start gap-2 p-2">
-          <div className="flex flex-col space-y-1 leading-none">
-            {user?.email && (
-              <p className="font-medium">{user.email}</p>
-            )}
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" className="rounded-full overflow-hidden">
+            <User className="h-[1.2rem] w-[1.2rem]" />
+            <span className="sr-only">User menu</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <div className="flex items-center justify-start gap-2 p-2">
+            <div className="flex flex-col space-y-1 leading-none">
+              {user?.email && (
+                <p className="font-medium">{user.email}</p>
+              )}
+              <p className="text-xs text-muted-foreground">{activeWorkspace?.name ?? "Personal"}</p>
+            </div>
           </div>
-        </div>
-        <DropdownMenuSeparator />
-        <DropdownMenuItem
-          className="flex cursor-pointer items-center text-destructive focus:text-destructive"
-          onClick={handleSignOut}
-        >
-          <LogOut className="mr-2 h-4 w-4" />
-          <span>Sign out</span>
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="flex cursor-pointer items-center">
+              <Users className="mr-2 h-4 w-4" />
+              <span>Workspace</span>
+              {invites.length > 0 && (
+                <span className="ml-auto rounded-full bg-podcast-primary px-1.5 text-[10px] text-white">{invites.length}</span>
+              )}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-60">
+              <DropdownMenuRadioGroup
+                value={activeWorkspace?.id ?? PERSONAL}
+                onValueChange={(value) => switchWorkspace(value === PERSONAL ? null : value)}
+              >
+                <DropdownMenuRadioItem value={PERSONAL}>Personal</DropdownMenuRadioItem>
+                {workspaces.map(workspace => (
+                  <DropdownMenuRadioItem key={workspace.id} value={workspace.id}>
+                    <span className="truncate">{workspace.name}</span>
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground">{workspace.role}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="flex cursor-pointer items-center" onClick={() => setCreateWorkspaceOpen(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                <span>New workspace...</span>
+              </DropdownMenuItem>
+              {activeWorkspace && (
+                <DropdownMenuItem className="flex cursor-pointer items-center" onClick={() => setSettingsOpen(true)}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  <span>Manage {activeWorkspace.name}...</span>
+                </DropdownMenuItem>
+              )}
+              {invites.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs text-muted-foreground">Invitations</DropdownMenuLabel>
+                  {invites.map(invite => (
+                    <div key={invite.id} className="flex items-center gap-1 px-2 py-1 text-sm">
+                      <span className="min-w-0 flex-1 truncate" title={`Join as ${invite.role}`}>
+                        {invite.workspace?.name ?? "Workspace"}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-green-600"
+                        onClick={() => handleAcceptInvite(invite.id)}
+                        title={`Join as ${invite.role}`}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => handleDeclineInvite(invite.id)}
+                        title="Decline"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </>
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="flex cursor-pointer items-center"
+            onClick={() => navigate("/memories")}
+          >
+            <Brain className="mr-2 h-4 w-4" />
+            <span>Memory</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="flex cursor-pointer items-center"
+            onClick={() => navigate("/usage")}
+          >
+            <BarChart3 className="mr-2 h-4 w-4" />
+            <span>Usage</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="flex cursor-pointer items-center"
+            onClick={() => setKeyVaultOpen(true)}
+          >
+            <KeyRound className="mr-2 h-4 w-4" />
+            <span>API keys</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="flex cursor-pointer items-center text-destructive focus:text-destructive"
+            onClick={handleSignOut}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            <span>Sign out</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ApiKeyVaultDialog open={keyVaultOpen} onClose={() => setKeyVaultOpen(false)} />
+      <FolderNameDialog
+        open={createWorkspaceOpen}
+        title="New workspace"
+        placeholder="e.g. Studio team"
+        onClose={() => setCreateWorkspaceOpen(false)}
+        onSubmit={handleCreateWorkspace}
+      />
+      <WorkspaceSettingsDialog
+        open={settingsOpen}
+        workspace={activeWorkspace}
+        onClose={() => setSettingsOpen(false)}
+      />
+    </>
   );
 }
@@ -0,0 +1,277 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, Trash2, UserMinus } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { useWorkspace } from "@/hooks/use-workspace";
+import {
+  WORKSPACE_ROLES,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceRole,
+  deleteWorkspace,
+  deleteWorkspaceInvite,
+  getWorkspaceInvites,
+  getWorkspaceMembers,
+  inviteToWorkspace,
+  removeWorkspaceMember,
+  renameWorkspace,
+  sendWorkspaceInvite,
+  updateMemberRole
+} from "@/services/workspaceService";
+
+interface WorkspaceSettingsDialogProps {
+  open: boolean;
+  workspace: Workspace | null;
+  onClose: () => void;
+}
+
+const roleLabel = (role: WorkspaceRole) => WORKSPACE_ROLES.find(option => option.value === role)?.label ?? role;
+
+// Owners manage the name, members and invitations; everyone else can see who is in it and leave
+export const WorkspaceSettingsDialog = ({ open, workspace, onClose }: WorkspaceSettingsDialogProps) => {
+  const { user } = useAuth();
+  const { refresh } = useWorkspace();
+  const [name, setName] = useState("");
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const isOwner = workspace?.role === "owner";
+
+  useEffect(() => {
+    if (!open || !workspace) return;
+    setName(workspace.name);
+    setInviteEmail("");
+    getWorkspaceMembers(workspace.id).then(setMembers);
+    if (workspace.role === "owner") {
+      getWorkspaceInvites(workspace.id).then(setInvites);
+    } else {
+      setInvites([]);
+    }
+  }, [open, workspace]);
+
+  if (!workspace) return null;
+
+  const handleRename = async () => {
+    if (!name.trim() || name.trim() === workspace.name) return;
+    if (await renameWorkspace(workspace.id, name.trim())) {
+      toast.success("Workspace renamed");
+      await refresh();
+    }
+  };
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim();
+    if (!email.includes("@")) {
+      toast.error("Enter an email address");
+      return;
+    }
+    setIsSubmitting(true);
+    const invite = await inviteToWorkspace(workspace.id, email, inviteRole);
+    setIsSubmitting(false);
+    if (invite) {
+      setInvites(prev => [...prev, invite]);
+      setInviteEmail("");
+      // A failed email has already been reported; the invitation can be resent from the list
+      if (invite.emailed) toast.success(`Emailed an invitation to ${invite.email}`);
+    }
+  };
+
+  const handleResendInvite = async (invite: WorkspaceInvite) => {
+    if (await sendWorkspaceInvite(invite.id)) {
+      toast.success(`Emailed the invitation to ${invite.email} again`);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: WorkspaceInvite) => {
+    if (await deleteWorkspaceInvite(invite.id)) {
+      setInvites(prev => prev.filter(item => item.id !== invite.id));
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (await updateMemberRole(workspace.id, member.user_id, role)) {
+      setMembers(prev => prev.map(item => item.user_id === member.user_id ? { ...item, role } : item));
+      if (member.user_id === user?.id) await refresh();
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    if (await removeWorkspaceMember(workspace.id, member.user_id)) {
+      setMembers(prev => prev.filter(item => item.user_id !== member.user_id));
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!user) return;
+    if (await removeWorkspaceMember(workspace.id, user.id)) {
+      toast.success(`Left ${workspace.name}`);
+      onClose();
+      await refresh();
+    }
+  };
+
+  const handleDelete = async () => {
+    // Unlike other deletes this affects every member, so ask first
+    if (!window.confirm(`Delete ${workspace.name}? Its conversations, shows and personas go back to the members who created them.`)) {
+      return;
+    }
+    if (await deleteWorkspace(workspace.id)) {
+      toast.success(`Deleted ${workspace.name}`);
+      onClose();
+      await refresh();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{workspace.name}</DialogTitle>
+          <DialogDescription>
+            Your role: {roleLabel(workspace.role)}. Members share this workspace's conversations, shows and personas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <div className="flex gap-2">
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleRename()}
+              />
+              <Button variant="outline" onClick={handleRename} disabled={!name.trim() || name.trim() === workspace.name}>
+                Rename
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Members</Label>
+          <div className="max-h-56 overflow-y-auto rounded-md border">
+            <div className="space-y-1 p-2">
+              {members.map(member => (
+                <div key={member.user_id} className="flex items-center gap-2 text-sm">
+                  <span className="min-w-0 flex-1 truncate">
+                    {member.email}
+                    {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </span>
+                  {isOwner ? (
+                    <>
+                      <Select value={member.role} onValueChange={(role) => handleRoleChange(member, role as WorkspaceRole)}>
+                        <SelectTrigger className="h-8 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WORKSPACE_ROLES.map(option => (
+                            <SelectItem key={option.value} value={option.value} className="text-xs">
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {member.user_id !== user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => handleRemove(member)}
+                          title="Remove member"
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{roleLabel(member.role)}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <Label htmlFor="workspace-invite">Invite by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="workspace-invite"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleInvite()}
+                placeholder="name@example.com"
+              />
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as WorkspaceRole)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORKSPACE_ROLES.map(option => (
+                    <SelectItem key={option.value} value={option.value} title={option.description}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleInvite}
+                disabled={!inviteEmail.trim() || isSubmitting}
+                className="bg-podcast-primary hover:bg-podcast-secondary"
+              >
+                Invite
+              </Button>
+            </div>
+            {invites.map(invite => (
+              <div key={invite.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span className="min-w-0 flex-1 truncate">{invite.email}</span>
+                <span className="text-xs">{roleLabel(invite.role)} · pending</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleResendInvite(invite)}
+                  title="Email the invitation again"
+                >
+                  <Mail className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 hover:text-destructive"
+                  onClick={() => handleRevokeInvite(invite)}
+                  title="Revoke invitation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2 border-t pt-4">
+          <Button variant="outline" onClick={handleLeave}>
+            Leave workspace
+          </Button>
+          {isOwner && (
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete workspace
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
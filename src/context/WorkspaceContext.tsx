@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { WorkspaceContext } from "@/hooks/use-workspace";
+import {
+  Workspace,
+  WorkspaceInvite,
+  acceptWorkspaceInvite,
+  canEditWorkspace,
+  getMyInvites,
+  getWorkspaces
+} from "@/services/workspaceService";
+
+const ACTIVE_WORKSPACE_KEY = "active_workspace_id";
+const PENDING_INVITE_KEY = "pending_workspace_invite";
+
+// Invitation emails link to /?invite=<id>. The id is read before any redirect to the sign-in page
+// and kept for the session, so the invitation is accepted once the user is signed in.
+const readPendingInvite = () => {
+  const params = new URLSearchParams(window.location.search);
+  const fromLink = params.get("invite");
+  if (!fromLink) return sessionStorage.getItem(PENDING_INVITE_KEY);
+
+  sessionStorage.setItem(PENDING_INVITE_KEY, fromLink);
+  params.delete("invite");
+  const search = params.toString();
+  window.history.replaceState(window.history.state, "", `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`);
+  return fromLink;
+};
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_WORKSPACE_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+  const [pendingInviteId, setPendingInviteId] = useState<string | null>(readPendingInvite);
+
+  const refresh = useCallback(async () => {
+    const [loadedWorkspaces, loadedInvites] = await Promise.all([getWorkspaces(), getMyInvites()]);
+    setWorkspaces(loadedWorkspaces);
+    setInvites(loadedInvites);
+    // Fall back to the personal space after leaving, or losing access to, the active workspace
+    setActiveWorkspaceId(current =>
+      current && loadedWorkspaces.some(workspace => workspace.id === current) ? current : null
+    );
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!user || !pendingInviteId) return;
+    sessionStorage.removeItem(PENDING_INVITE_KEY);
+    setPendingInviteId(null);
+    acceptWorkspaceInvite(pendingInviteId).then(async id => {
+      if (!id) return;
+      await refresh();
+      setActiveWorkspaceId(id);
+      toast.success("Joined workspace");
+    });
+  }, [user, pendingInviteId, refresh]);
+
+  useEffect(() => {
+    if (user) {
+      setLoading(true);
+      refresh();
+    } else {
+      setWorkspaces([]);
+      setInvites([]);
+      setLoading(false);
+    }
+  }, [user, refresh]);
+
+  useEffect(() => {
+    if (loading) return;
+    if (activeWorkspaceId) {
+      localStorage.setItem(ACTIVE_WORKSPACE_KEY, activeWorkspaceId);
+    } else {
+      localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    }
+  }, [activeWorkspaceId, loading]);
+
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) ?? null;
+  const role = activeWorkspace?.role ?? null;
+
+  const value = {
+    workspaces,
+    activeWorkspace,
+    role,
+    canEdit: !activeWorkspace || canEditWorkspace(role),
+    invites,
+    loading,
+    switchWorkspace: setActiveWorkspaceId,
+    refresh,
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+}
@@ -0,0 +1,38 @@
+import * as React from "react"
+import { MessageSearchResult, searchMessages } from "@/services/searchService"
+import { useWorkspace } from "@/hooks/use-workspace"
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// Searches the active workspace as the user types, dropping responses that arrive after a newer query
+export function useMessageSearch(query: string) {
+  const [results, setResults] = React.useState<MessageSearchResult[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const { activeWorkspace } = useWorkspace()
+  const workspaceId = activeWorkspace?.id ?? null
+
+  React.useEffect(() => {
+    if (!query.trim()) {
+      setResults([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    const timer = setTimeout(async () => {
+      const found = await searchMessages(query, workspaceId)
+      if (!cancelled) {
+        setResults(found)
+        setLoading(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, workspaceId])
+
+  return { results, loading }
+}
@@ -0,0 +1,35 @@
+import * as React from "react"
+import { useAuth } from "@/context/AuthContext"
+import { useWorkspace } from "@/hooks/use-workspace"
+import { Collaborator, WorkspacePresence, joinWorkspacePresence } from "@/services/realtimeService"
+
+// Reports what this tab is doing to the rest of the active workspace and returns what the
+// other members are doing. Always empty in the personal space.
+export function useWorkspacePresence(conversationId: string | null, generating: boolean) {
+  const { user } = useAuth()
+  const { activeWorkspace } = useWorkspace()
+  const [collaborators, setCollaborators] = React.useState<Collaborator[]>([])
+  const presenceRef = React.useRef<WorkspacePresence | null>(null)
+  const statusRef = React.useRef({ conversationId, generating })
+  statusRef.current = { conversationId, generating }
+  const workspaceId = activeWorkspace?.id ?? null
+
+  React.useEffect(() => {
+    setCollaborators([])
+    if (!user || !workspaceId) return
+
+    const presence = joinWorkspacePresence(workspaceId, user, setCollaborators)
+    presence.update(statusRef.current)
+    presenceRef.current = presence
+    return () => {
+      presence.leave()
+      presenceRef.current = null
+    }
+  }, [user, workspaceId])
+
+  React.useEffect(() => {
+    presenceRef.current?.update({ conversationId, generating })
+  }, [conversationId, generating])
+
+  return collaborators
+}
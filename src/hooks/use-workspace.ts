@@ -0,0 +1,26 @@
+import * as React from "react"
+import { Workspace, WorkspaceInvite, WorkspaceRole } from "@/services/workspaceService"
+
+export interface WorkspaceContextType {
+  workspaces: Workspace[]
+  // null is the personal space
+  activeWorkspace: Workspace | null
+  // The user's role in the active workspace; null in the personal space
+  role: WorkspaceRole | null
+  canEdit: boolean
+  invites: WorkspaceInvite[]
+  loading: boolean
+  switchWorkspace: (id: string | null) => void
+  refresh: () => Promise<void>
+}
+
+// Provided by WorkspaceProvider in @/context/WorkspaceContext
+export const WorkspaceContext = React.createContext<WorkspaceContextType | undefined>(undefined)
+
+export function useWorkspace() {
+  const context = React.useContext(WorkspaceContext)
+  if (context === undefined) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider")
+  }
+  return context
+}
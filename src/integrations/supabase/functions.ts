@@ -0,0 +1,18 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// The generated client keeps the project URL private, and supabase.functions.invoke
+// cannot be aborted, so streaming calls fetch the edge functions directly
+export const FUNCTIONS_URL = "https://ynuxllxruoezzpraiyih.supabase.co/functions/v1";
+
+// The edge functions answer errors with { error: { message } }
+export const functionErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      return body?.error?.message ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return fallback;
+};
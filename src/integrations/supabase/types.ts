@@ -33,50 +33,353 @@ export type Database = {
         }
         Relationships: []
       }
+      api_rate_limits: {
+        Row: {
+          bucket: string
+          request_count: number
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          bucket?: string
+          request_count?: number
+          user_id: string
+          window_start?: string
+        }
+        Update: {
+          bucket?: string
+          request_count?: number
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      conversation_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "conversation_folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_organization: {
+        Row: {
+          archived_at: string | null
+          conversation_id: string
+          folder_id: string | null
+          pinned: boolean
+          tags: string[]
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          conversation_id: string
+          folder_id?: string | null
+          pinned?: boolean
+          tags?: string[]
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          conversation_id?: string
+          folder_id?: string | null
+          pinned?: boolean
+          tags?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_organization_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_organization_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "conversation_folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_shares: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_shares_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
+          context_token_budget: number
           created_at: string
+          forked_from_message_id: string | null
+          generation_settings: Json
           id: string
+          import_source: string | null
+          import_source_id: string | null
+          parent_conversation_id: string | null
+          persona_preset_id: string | null
+          persona_version: number | null
+          provider: string
+          show_id: string | null
+          summary: string | null
+          summary_through_message_id: string | null
+          synopsis: string | null
           title: string
+          title_source: string
           updated_at: string
           user_id: string
+          workspace_id: string | null
         }
         Insert: {
+          context_token_budget?: number
           created_at?: string
+          forked_from_message_id?: string | null
+          generation_settings?: Json
           id?: string
+          import_source?: string | null
+          import_source_id?: string | null
+          parent_conversation_id?: string | null
+          persona_preset_id?: string | null
+          persona_version?: number | null
+          provider?: string
+          show_id?: string | null
+          summary?: string | null
+          summary_through_message_id?: string | null
+          synopsis?: string | null
           title?: string
+          title_source?: string
           updated_at?: string
           user_id: string
+          workspace_id?: string | null
         }
         Update: {
+          context_token_budget?: number
           created_at?: string
+          forked_from_message_id?: string | null
+          generation_settings?: Json
           id?: string
+          import_source?: string | null
+          import_source_id?: string | null
+          parent_conversation_id?: string | null
+          persona_preset_id?: string | null
+          persona_version?: number | null
+          provider?: string
+          show_id?: string | null
+          summary?: string | null
+          summary_through_message_id?: string | null
+          synopsis?: string | null
           title?: string
+          title_source?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "conversations_forked_from_message_id_fkey"
+            columns: ["forked_from_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_parent_conversation_id_fkey"
+            columns: ["parent_conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_summary_through_message_id_fkey"
+            columns: ["summary_through_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_persona_preset_id_fkey"
+            columns: ["persona_preset_id"]
+            isOneToOne: false
+            referencedRelation: "persona_presets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_usage: {
+        Row: {
+          candidate_tokens: number
+          conversation_id: string | null
+          cost_usd: number
+          created_at: string
+          id: string
+          message_id: string | null
+          model: string | null
+          prompt_tokens: number
+          provider: string
+          show_id: string | null
+          task: string
+          total_tokens: number
+          user_id: string
+        }
+        Insert: {
+          candidate_tokens?: number
+          conversation_id?: string | null
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          model?: string | null
+          prompt_tokens?: number
+          provider: string
+          show_id?: string | null
+          task?: string
+          total_tokens?: number
+          user_id: string
+        }
+        Update: {
+          candidate_tokens?: number
+          conversation_id?: string | null
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          model?: string | null
+          prompt_tokens?: number
+          provider?: string
+          show_id?: string | null
+          task?: string
+          total_tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_usage_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_usage_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_usage_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       messages: {
         Row: {
           content: string
+          content_tsv: unknown | null
           conversation_id: string
           id: string
+          is_active: boolean
+          parent_id: string | null
           role: string
+          safety_feedback: Json | null
+          status: string
           timestamp: string
         }
         Insert: {
           content: string
+          content_tsv?: never
           conversation_id: string
           id?: string
+          is_active?: boolean
+          parent_id?: string | null
           role: string
+          safety_feedback?: Json | null
+          status?: string
           timestamp?: string
         }
         Update: {
           content?: string
+          content_tsv?: never
           conversation_id?: string
           id?: string
+          is_active?: boolean
+          parent_id?: string | null
           role?: string
+          safety_feedback?: Json | null
+          status?: string
           timestamp?: string
         }
         Relationships: [
@@ -87,6 +390,89 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      persona_preset_versions: {
+        Row: {
+          created_at: string
+          id: string
+          preset_id: string
+          system_prompt: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          preset_id: string
+          system_prompt: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          preset_id?: string
+          system_prompt?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "persona_preset_versions_preset_id_fkey"
+            columns: ["preset_id"]
+            isOneToOne: false
+            referencedRelation: "persona_presets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      persona_presets: {
+        Row: {
+          created_at: string
+          current_version: number
+          deleted_at: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          current_version?: number
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          current_version?: number
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "persona_presets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -107,27 +493,355 @@ export type Database = {
         }
         Relationships: []
       }
-    }
-    Views: {
-      default_api_keys: {
+      shows: {
         Row: {
-          api_key: string | null
-          service_name: string | null
+          banned_topics: string[]
+          created_at: string
+          description: string | null
+          episode_length_minutes: number | null
+          format: string | null
+          hosts: string | null
+          id: string
+          name: string
+          recurring_segments: string[]
+          safety_settings: Json
+          target_audience: string | null
+          tone: string | null
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
         }
         Insert: {
-          api_key?: string | null
-          service_name?: string | null
+          banned_topics?: string[]
+          created_at?: string
+          description?: string | null
+          episode_length_minutes?: number | null
+          format?: string | null
+          hosts?: string | null
+          id?: string
+          name: string
+          recurring_segments?: string[]
+          safety_settings?: Json
+          target_audience?: string | null
+          tone?: string | null
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
         }
         Update: {
-          api_key?: string | null
-          service_name?: string | null
+          banned_topics?: string[]
+          created_at?: string
+          description?: string | null
+          episode_length_minutes?: number | null
+          format?: string | null
+          hosts?: string | null
+          id?: string
+          name?: string
+          recurring_segments?: string[]
+          safety_settings?: Json
+          target_audience?: string | null
+          tone?: string | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shows_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_budgets: {
+        Row: {
+          alert_percent: number
+          monthly_limit_usd: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_percent?: number
+          monthly_limit_usd: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_percent?: number
+          monthly_limit_usd?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_api_keys: {
+        Row: {
+          created_at: string
+          encrypted_key: string
+          id: string
+          is_default: boolean
+          key_hint: string
+          label: string
+          last_test_ok: boolean | null
+          last_tested_at: string | null
+          provider: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_key: string
+          id?: string
+          is_default?: boolean
+          key_hint: string
+          label: string
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          provider: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_key?: string
+          id?: string
+          is_default?: boolean
+          key_hint?: string
+          label?: string
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          provider?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_memories: {
+        Row: {
+          category: string
+          content: string
+          created_at: string
+          id: string
+          pinned: boolean
+          source_conversation_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          content: string
+          created_at?: string
+          id?: string
+          pinned?: boolean
+          source_conversation_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          content?: string
+          created_at?: string
+          id?: string
+          pinned?: boolean
+          source_conversation_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_memories_source_conversation_id_fkey"
+            columns: ["source_conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
         }
         Relationships: []
       }
     }
-    Functions: {
+    Views: {
       [_ in never]: never
     }
+    Functions: {
+      accept_workspace_invite: {
+        Args: {
+          p_invite_id: string
+        }
+        Returns: string
+      }
+      can_edit_workspace: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: boolean
+      }
+      can_join_presence_channel: {
+        Args: {
+          p_topic: string
+        }
+        Returns: boolean
+      }
+      consume_rate_limit: {
+        Args: {
+          p_bucket: string
+          p_max_requests: number
+          p_user_id: string
+          p_window_seconds: number
+        }
+        Returns: number
+      }
+      conversation_workspace_id: {
+        Args: {
+          p_conversation_id: string
+        }
+        Returns: string
+      }
+      create_workspace: {
+        Args: {
+          p_name: string
+        }
+        Returns: string
+      }
+      current_user_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_shared_conversation: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+      is_workspace_member: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: boolean
+      }
+      is_workspace_owner: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: boolean
+      }
+      seed_persona_presets: {
+        Args: {
+          p_presets: Json
+        }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: {
+          p_limit?: number
+          p_query: string
+          p_workspace_id?: string
+        }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          message_id: string
+          rank: number
+          role: string
+          snippet: string
+          timestamp: string
+        }[]
+      }
+      workspace_role: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: string
+      }
+    }
     Enums: {
       [_ in never]: never
     }
@@ -0,0 +1,26 @@
+import type { DragEvent } from "react";
+
+// Conversations and folders dragged around the sidebar
+export interface SidebarDragItem {
+  kind: "conversation" | "folder";
+  id: string;
+}
+
+const DRAG_TYPE = "application/x-podcastgpt-sidebar-item";
+
+export const setDragItem = (event: DragEvent, item: SidebarDragItem) => {
+  event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+  event.dataTransfer.effectAllowed = "move";
+};
+
+// Only the type is readable during dragover, so this decides whether a drop target lights up
+export const isSidebarDrag = (event: DragEvent) => event.dataTransfer.types.includes(DRAG_TYPE);
+
+export const getDragItem = (event: DragEvent): SidebarDragItem | null => {
+  try {
+    const data = event.dataTransfer.getData(DRAG_TYPE);
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+};
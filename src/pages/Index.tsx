@@ -1,54 +1,260 @@
 import { useState, useRef, useEffect } from "react";
 import { ChatInput } from "@/components/ChatInput";
 import { ChatMessage } from "@/components/ChatMessage";
-import { ApiKeyModal } from "@/components/ApiKeyModal";
+import { ProviderConfigModal } from "@/components/ProviderConfigModal";
+import { ApiKeyVaultDialog } from "@/components/ApiKeyVaultDialog";
+import { ProviderSelector } from "@/components/ProviderSelector";
+import { ShowSelector } from "@/components/ShowSelector";
+import { Show, getShows } from "@/services/showService";
+import { PersonaSelector } from "@/components/PersonaSelector";
+import { PersonaPreset, getPersonaPresets, getPersonaPrompt } from "@/services/personaService";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "sonner";
 import { TypingIndicator } from "@/components/TypingIndicator";
 import { PodcastThemeSelector } from "@/components/PodcastThemeSelector";
 import { v4 as uuidv4 } from "uuid";
-import { Message, hasApiKey, generateStreamingResponse } from "@/services/geminiService";
+import { GenerationOptions, Message, generateStreamingResponse } from "@/services/geminiService";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_PROVIDER_ID,
+  GenerationResult,
+  GenerationSettings,
+  getProvider,
+  getSafetyFeedback,
+  InvalidApiKeyError,
+  InvalidRequestError,
+  MalformedStreamError,
+  NetworkError,
+  parseGenerationSettings,
+  ProviderId,
+  QuotaExceededError,
+  removeLegacyApiKeys,
+  SafetyBlockError,
+  ServerError
+} from "@/services/providers";
 import { Button } from "@/components/ui/button";
-import { Plus, MessageSquare, Mic } from "lucide-react";
+import { Plus, MessageSquare, Mic, GitBranch, ScrollText, SlidersHorizontal, Share2, Loader2 } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
+import { useWorkspace } from "@/hooks/use-workspace";
 import { UserMenu } from "@/components/UserMenu";
-import { Navigate } from "react-router-dom";
+import { Navigate, useNavigate } from "react-router-dom";
 import { ConversationSidebar } from "@/components/ConversationSidebar";
+import { SearchPalette } from "@/components/SearchPalette";
+import { ConversationSummaryPanel } from "@/components/ConversationSummaryPanel";
+import { GenerationSettingsPanel } from "@/components/GenerationSettingsPanel";
+import { ShareConversationDialog } from "@/components/ShareConversationDialog";
+import { ConversationContextState, refreshRollingSummary } from "@/services/summaryService";
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from "@/services/contextBuilder";
 import { 
   createConversation, 
+  getConversation,
   getConversationMessages, 
   saveMessage,
   updateConversationTitle,
-  getUserInterests
+  updateConversationProvider,
+  updateConversationShow,
+  updateConversationPersona,
+  updateConversationGenerationSettings,
+  updateMessage,
+  setActiveVariant,
+  activateMessagePath,
+  forkConversation,
+  Conversation,
+  PersonaSelection
 } from "@/services/conversationService";
+import { getUserInterests, proposeMemories } from "@/services/memoryService";
+import { generateConversationTitle } from "@/services/titleService";
+import { formatCost, onBudgetAlert, recordUsage } from "@/services/usageService";
+import {
+  MessageChangeRow,
+  collaboratorName,
+  subscribeToConversations,
+  subscribeToMessages
+} from "@/services/realtimeService";
+import { useWorkspacePresence } from "@/hooks/use-workspace-presence";
+import { CollaboratorAvatars } from "@/components/CollaboratorAvatars";
+
+const EMPTY_CONTEXT: ConversationContextState = {
+  summary: null,
+  summaryThroughMessageId: null,
+  contextTokenBudget: DEFAULT_CONTEXT_TOKEN_BUDGET,
+};
+
+// How long a message opened from search stays highlighted
+const HIGHLIGHT_DURATION_MS = 2500;
+
+// A collaborator's reply lands as several writes in a row, so the reload waits for the burst to end
+const LIVE_RELOAD_DELAY_MS = 300;
+
+// Whether a message change seen through Realtime alters the path on screen; echoes of our own writes do not
+const changesShownPath = (shown: Message[], row: MessageChangeRow) => {
+  const message = shown.find(msg => msg.id === row.id);
+  if (!message) return row.is_active;
+  return !row.is_active || message.content !== row.content || (message.status ?? "complete") !== row.status;
+};
+
+// How a stream ended, as stored on the message
+const messageStatus = (finishReason?: string): Message["status"] => {
+  if (finishReason === "STOPPED") return "stopped";
+  if (finishReason === "MAX_TOKENS") return "truncated";
+  return "complete";
+};
+
+// A specific, actionable explanation of why a reply could not be generated
+const describeGenerationError = (error: unknown, providerLabel: string): string => {
+  if (error instanceof InvalidApiKeyError) {
+    return `${providerLabel} rejected the API key or is not set up. Check the provider settings, then retry.`;
+  }
+  if (error instanceof QuotaExceededError) {
+    return `${providerLabel} is rate limiting requests or your quota is used up, even after several retries. Wait a minute or switch provider, then retry.`;
+  }
+  if (error instanceof ServerError) {
+    return `${providerLabel} had a server error (${error.status}) and did not recover after several retries. Retry in a moment.`;
+  }
+  if (error instanceof NetworkError) {
+    return `Could not reach ${providerLabel}. Check your connection (or that the local server is running), then retry.`;
+  }
+  if (error instanceof MalformedStreamError) {
+    return `${providerLabel} sent a response that could not be read. Retry, or pick another model in the generation settings.`;
+  }
+  if (error instanceof InvalidRequestError) {
+    return `${providerLabel} rejected the request: ${error.message}. Check the model and generation settings, then retry.`;
+  }
+  return "Something went wrong while generating the response. Please retry.";
+};
 
 const Index = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
-  const [apiKeyModalOpen, setApiKeyModalOpen] = useState(false);
+  const [providerConfigOpen, setProviderConfigOpen] = useState(false);
+  const [keyVaultOpen, setKeyVaultOpen] = useState(false);
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER_ID);
   const [currentResponseId, setCurrentResponseId] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversationTitle, setConversationTitle] = useState("");
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
   const [refreshSidebarTrigger, setRefreshSidebarTrigger] = useState(0);
   const [userInterests, setUserInterests] = useState<string[]>([]);
+  const [forkParent, setForkParent] = useState<Conversation | null>(null);
+  const [contextState, setContextState] = useState<ConversationContextState>(EMPTY_CONTEXT);
+  const [summaryPanelOpen, setSummaryPanelOpen] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [settingsPanelOpen, setSettingsPanelOpen] = useState(false);
+  const [shows, setShows] = useState<Show[]>([]);
+  const [activeShowId, setActiveShowId] = useState<string | null>(null);
+  const [personaPresets, setPersonaPresets] = useState<PersonaPreset[]>([]);
+  const [personaSelection, setPersonaSelection] = useState<PersonaSelection | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const { user, loading } = useAuth();
+  const { activeWorkspace, canEdit, loading: workspacesLoading } = useWorkspace();
+  const workspaceId = activeWorkspace?.id ?? null;
+  const collaborators = useWorkspacePresence(conversationId, isProcessing);
+  const navigate = useNavigate();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest values for the Realtime handlers, which outlive the render that subscribed them
+  const messagesRef = useRef(messages);
+  const conversationIdRef = useRef(conversationId);
+  const isProcessingRef = useRef(isProcessing);
+  const pendingReloadRef = useRef(false);
+  messagesRef.current = messages;
+  conversationIdRef.current = conversationId;
+  isProcessingRef.current = isProcessing;
 
   useEffect(() => {
-    const checkApiKey = async () => {
-      const hasKey = await hasApiKey();
-      if (!hasKey) {
-        setApiKeyModalOpen(true);
-      }
-    };
+    removeLegacyApiKeys();
+  }, []);
 
+  // Warn when a reply or a background request pushes this month's spend over a budget line
+  useEffect(() => onBudgetAlert(alert => {
+    const spent = `${formatCost(alert.spend)} of your ${formatCost(alert.limit)} monthly budget`;
+    toast.warning(alert.level === "exceeded" ? `Budget exceeded: ${spent}` : `You have used ${spent}`, {
+      action: { label: "View usage", onClick: () => navigate("/usage") }
+    });
+  }), [navigate]);
+
+  useEffect(() => {
     if (user) {
-      checkApiKey();
       initConversation();
       loadUserInterests();
     }
   }, [user]);
+
+  // Shows and personas belong to the workspace, and switching workspace leaves the open conversation
+  useEffect(() => {
+    if (!user || workspacesLoading) return;
+    getShows(workspaceId).then(setShows);
+    getPersonaPresets(workspaceId).then(setPersonaPresets);
+    abortControllerRef.current?.abort();
+    setConversationId(null);
+    setForkParent(null);
+    setContextState(EMPTY_CONTEXT);
+    setActiveShowId(null);
+    setPersonaSelection(null);
+    setMessages([]);
+  }, [user, workspaceId, workspacesLoading]);
+
+  // Bring a message opened from search into view and flash it
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Show what collaborators wrote; while our own reply streams, the reload waits until it has finished
+  const reloadLiveMessages = async (id: string) => {
+    if (isProcessingRef.current) {
+      pendingReloadRef.current = true;
+      return;
+    }
+    const loaded = await getConversationMessages(id);
+    if (conversationIdRef.current === id && !isProcessingRef.current) setMessages(loaded);
+  };
+
+  useEffect(() => {
+    pendingReloadRef.current = false;
+    if (!conversationId) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToMessages(conversationId, (row) => {
+      if (!changesShownPath(messagesRef.current, row)) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => reloadLiveMessages(conversationId), LIVE_RELOAD_DELAY_MS);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!isProcessing && pendingReloadRef.current && conversationId) {
+      pendingReloadRef.current = false;
+      reloadLiveMessages(conversationId);
+    }
+  }, [isProcessing, conversationId]);
+
+  // Follow renames of the open conversation, and leave it when it is deleted
+  useEffect(() => {
+    if (!user || workspacesLoading) return;
+    return subscribeToConversations({ workspaceId, userId: user.id }, {
+      onChange: (conversation) => {
+        if (conversation.id === conversationIdRef.current) setConversationTitle(conversation.title);
+      },
+      onRemove: (id) => {
+        if (id !== conversationIdRef.current) return;
+        abortControllerRef.current?.abort();
+        setConversationId(null);
+        setForkParent(null);
+        setContextState(EMPTY_CONTEXT);
+        setMessages([]);
+        toast.info("The conversation you had open was deleted");
+      },
+    });
+  }, [user, workspaceId, workspacesLoading]);
   
   const loadUserInterests = async () => {
     if (user) {
@@ -70,6 +276,12 @@ const Index = () => {
     return <Navigate to="/auth" />;
   }
 
+  // Other members of the workspace with this conversation open
+  const viewers = conversationId
+    ? collaborators.filter(collaborator => collaborator.conversationId === conversationId)
+    : [];
+  const othersGenerating = viewers.filter(viewer => viewer.generating);
+
   const initConversation = async () => {
     if (!conversationId) {
       setMessages([]);
@@ -77,17 +289,49 @@ const Index = () => {
     }
   };
 
-  const loadConversation = async (id: string) => {
+  // focusMessageId scrolls to and highlights that message instead of scrolling to the bottom
+  const loadConversation = async (id: string, focusMessageId?: string) => {
     if (isProcessing) return;
     
     setConversationId(id);
+    const conversation = await getConversation(id);
+    setConversationTitle(conversation?.title ?? "");
+    if (conversation) {
+      setProviderId(getProvider(conversation.provider).id);
+      setActiveShowId(conversation.show_id);
+      setPersonaSelection(conversation.persona_preset_id && conversation.persona_version
+        ? { presetId: conversation.persona_preset_id, version: conversation.persona_version }
+        : null);
+      setContextState({
+        summary: conversation.summary,
+        summaryThroughMessageId: conversation.summary_through_message_id,
+        contextTokenBudget: conversation.context_token_budget,
+      });
+      setGenerationSettings(parseGenerationSettings(conversation.generation_settings));
+    }
+    setForkParent(conversation?.parent_conversation_id
+      ? await getConversation(conversation.parent_conversation_id)
+      : null);
     const conversationMessages = await getConversationMessages(id);
     setMessages(conversationMessages);
-    scrollToBottom();
+    if (focusMessageId) {
+      setHighlightedMessageId(focusMessageId);
+    } else {
+      scrollToBottom();
+    }
+  };
+
+  // Open a search hit, switching to the version of the conversation that contains it
+  const openSearchResult = async (targetConversationId: string, messageId: string) => {
+    if (isProcessing) return;
+    await activateMessagePath(targetConversationId, messageId);
+    await loadConversation(targetConversationId, messageId);
   };
 
   const handleConversationDeleted = () => {
     setConversationId(null);
+    setForkParent(null);
+    setContextState(EMPTY_CONTEXT);
     setMessages([]);
     initConversation();
   };
@@ -96,65 +340,121 @@ const Index = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Placeholder shown until a title is generated from the first exchange
   const updateConversationTitleWithFirstMessage = async (id: string, content: string) => {
     const title = content.length > 30 ? content.substring(0, 30) + '...' : content;
     await updateConversationTitle(id, title);
     setRefreshSidebarTrigger(prev => prev + 1);
   };
 
-  const handleSubmit = async (content: string) => {
-    if (isProcessing) return;
-    
-    const hasKey = await hasApiKey();
-    if (!hasKey) {
-      setApiKeyModalOpen(true);
-      return;
+  const openProviderSettings = (provider: ProviderId = providerId) => {
+    if (provider === "gemini") {
+      setKeyVaultOpen(true);
+    } else if (provider === "mock") {
+      toast.info("The mock provider works offline and needs no settings");
+    } else {
+      setProviderConfigOpen(true);
+    }
+  };
+
+  const handleShowChange = async (showId: string | null) => {
+    setActiveShowId(showId);
+    if (conversationId) {
+      await updateConversationShow(conversationId, showId);
+    }
+  };
+
+  const handlePersonaChange = async (persona: PersonaSelection | null) => {
+    setPersonaSelection(persona);
+    if (conversationId) {
+      await updateConversationPersona(conversationId, persona);
     }
+  };
+
+  // The pinned version's prompt, so replies stay reproducible after the preset is edited
+  const getActiveSystemPrompt = (): string | undefined => {
+    if (!personaSelection) return undefined;
+    const preset = personaPresets.find(item => item.id === personaSelection.presetId);
+    return (preset && getPersonaPrompt(preset, personaSelection.version)) ?? undefined;
+  };
+
+  // Settings chosen before the first message are saved when the conversation is created
+  const handleGenerationSettingsSave = async (settings: GenerationSettings) => {
+    if (conversationId && !await updateConversationGenerationSettings(conversationId, settings)) {
+      return false;
+    }
+    setGenerationSettings(settings);
+    return true;
+  };
+
+  // A model id only means something to the provider it was picked for, so switching resets it to the default
+  const handleProviderChange = async (provider: ProviderId) => {
+    setProviderId(provider);
+    const settings = generationSettings.model ? { ...generationSettings, model: null } : generationSettings;
+    setGenerationSettings(settings);
+    if (conversationId) {
+      await updateConversationProvider(conversationId, provider);
+      if (settings !== generationSettings) await updateConversationGenerationSettings(conversationId, settings);
+    }
+  };
+
+  // Drops a model the provider does not list, e.g. one saved before the provider was switched
+  const getRequestSettings = (): GenerationSettings => {
+    const { models } = getProvider(providerId);
+    const { model } = generationSettings;
+    return model && models.length > 0 && !models.includes(model) ? { ...generationSettings, model: null } : generationSettings;
+  };
+
+  // Everything about the conversation that shapes a reply, besides the prompt itself
+  const getGenerationOptions = (history: Message[], signal: AbortSignal): GenerationOptions => ({
+    provider: providerId,
+    signal,
+    history,
+    contextTokenBudget: contextState.contextTokenBudget,
+    contextSummary: contextState.summary,
+    show: shows.find(show => show.id === activeShowId) ?? null,
+    systemPrompt: getActiveSystemPrompt(),
+    settings: getRequestSettings()
+  });
+
+  // Records what a reply cost; stopped replies record what was streamed before the stop
+  const trackUsage = (activeConversationId: string, messageId: string, result: GenerationResult) => {
+    recordUsage({
+      conversationId: activeConversationId,
+      messageId,
+      showId: activeShowId,
+      provider: providerId,
+      result
+    });
+  };
 
+  // Streams a reply to `prompt` into a new assistant message and saves it under the prompt
+  const streamAssistantReply = async (
+    activeConversationId: string,
+    prompt: Message,
+    history: Message[],
+    isVariant: boolean
+  ) => {
+    const responseId = uuidv4();
+    const aiMessage: Message = {
+      id: responseId,
+      role: "assistant",
+      content: "",
+      parentId: prompt.id,
+      timestamp: new Date()
+    };
+    let fullResponse = "";
+    
     try {
-      if (!conversationId) {
-        const newConversationId = await createConversation();
-        if (!newConversationId) {
-          toast.error("Failed to create conversation");
-          return;
-        }
-        setConversationId(newConversationId);
-      }
-      
-      const userMessage: Message = {
-        id: uuidv4(),
-        role: "user",
-        content,
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, userMessage]);
-      
-      if (conversationId) {
-        await saveMessage(conversationId, userMessage);
-        
-        if (messages.length === 0) {
-          await updateConversationTitleWithFirstMessage(conversationId, content);
-        }
-      }
-      
       setIsProcessing(true);
       setIsTyping(true);
-      
-      const responseId = uuidv4();
       setCurrentResponseId(responseId);
-      
-      const aiMessage: Message = {
-        id: responseId,
-        role: "assistant",
-        content: "",
-        timestamp: new Date()
-      };
-      
       setMessages(prev => [...prev, aiMessage]);
       
-      let fullResponse = "";
-      await generateStreamingResponse(content, (chunk) => {
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      
+      const result = await generateStreamingResponse(prompt.content, (chunk) => {
         fullResponse += chunk;
         
         setMessages(prev => 
@@ -164,41 +464,247 @@ const Index = () => {
               : msg
           )
         );
+      }, getGenerationOptions(history, abortController.signal)).catch((error) => {
+        // A blocked reply is saved with its explanation rather than shown as a failure
+        if (error instanceof SafetyBlockError) return error.result;
+        throw error;
       });
       
       const finalAiMessage: Message = {
         ...aiMessage,
-        content: fullResponse
+        content: fullResponse,
+        status: messageStatus(result.finishReason),
+        safetyFeedback: getSafetyFeedback(result)
       };
       
-      if (conversationId) {
-        await saveMessage(conversationId, finalAiMessage);
+      setMessages(prev => prev.map(msg => msg.id === responseId ? finalAiMessage : msg));
+      await saveMessage(activeConversationId, finalAiMessage);
+      trackUsage(activeConversationId, responseId, result);
+      
+      // Extra candidates become inactive versions of the reply, reachable through the 1/N switcher
+      const alternatives = result.candidates.filter(candidate => candidate.index > 0 && candidate.text.trim());
+      for (const candidate of alternatives) {
+        await saveMessage(activeConversationId, {
+          id: uuidv4(),
+          role: "assistant",
+          content: candidate.text,
+          parentId: prompt.id,
+          status: messageStatus(candidate.finishReason),
+          timestamp: new Date()
+        }, false);
       }
       
-      setCurrentResponseId(null);
+      if (isVariant) {
+        // Make the new reply the shown version among its siblings
+        await setActiveVariant(activeConversationId, responseId, prompt.id);
+      }
+      if (isVariant || alternatives.length > 0) {
+        setMessages(await getConversationMessages(activeConversationId));
+      }
+      
+      // Fold turns that no longer fit the budget into the running summary in the background
+      refreshRollingSummary(activeConversationId, [...history, prompt, finalAiMessage], contextState, providerId, activeShowId)
+        .then(next => next && setContextState(next));
+      
+      // Let the model suggest facts worth remembering from this exchange
+      proposeMemories(activeConversationId, [prompt, finalAiMessage], providerId, activeShowId).then(count => {
+        if (count > 0) {
+          toast(`PodcastGPT suggested ${count} new ${count === 1 ? "memory" : "memories"}`, {
+            action: { label: "Review", onClick: () => navigate("/memories") }
+          });
+        }
+      });
+      
+      // Name the conversation after its first exchange, unless the user already renamed it
+      if (history.length === 0) {
+        generateConversationTitle(activeConversationId, [prompt, finalAiMessage], providerId, activeShowId).then(generated => {
+          if (generated) setRefreshSidebarTrigger(prev => prev + 1);
+        });
+      }
       
       loadUserInterests();
       
     } catch (error) {
       console.error("Error generating response:", error);
-      toast.error("Failed to generate response. Please try again.");
+      const description = describeGenerationError(error, getProvider(providerId).label);
+      setMessages(prev => prev.map(msg =>
+        msg.id === responseId ? { ...msg, content: fullResponse, error: description } : msg
+      ));
+      if (error instanceof InvalidApiKeyError) {
+        openProviderSettings();
+      }
     } finally {
+      abortControllerRef.current = null;
+      setCurrentResponseId(null);
       setIsProcessing(false);
       setIsTyping(false);
       scrollToBottom();
     }
   };
 
+  // Asks for the rest of a reply that hit the token limit and appends it to the same message
+  const handleContinue = async (index: number) => {
+    if (isProcessing || !conversationId) return;
+    
+    const reply = messages[index];
+    const prompt = messages[index - 1];
+    if (!prompt || prompt.role !== "user") return;
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsProcessing(true);
+    setIsTyping(true);
+    setCurrentResponseId(reply.id);
+    
+    let fullResponse = reply.content;
+    try {
+      const result = await generateStreamingResponse(prompt.content, (chunk) => {
+        fullResponse += chunk;
+        setMessages(prev => prev.map(msg => msg.id === reply.id ? { ...msg, content: fullResponse } : msg));
+      }, { ...getGenerationOptions(messages.slice(0, index - 1), abortController.signal), continueFrom: reply.content })
+        .catch((error) => {
+          if (error instanceof SafetyBlockError) return error.result;
+          throw error;
+        });
+      
+      const status = messageStatus(result.finishReason);
+      setMessages(prev => prev.map(msg => msg.id === reply.id ? { ...msg, content: fullResponse, status } : msg));
+      await updateMessage(reply.id, { content: fullResponse, status });
+      trackUsage(conversationId, reply.id, result);
+    } catch (error) {
+      console.error("Error continuing response:", error);
+      toast.error(describeGenerationError(error, getProvider(providerId).label));
+    } finally {
+      abortControllerRef.current = null;
+      setCurrentResponseId(null);
+      setIsProcessing(false);
+      setIsTyping(false);
+      scrollToBottom();
+    }
+  };
+
+  const handleSubmit = async (content: string) => {
+    if (isProcessing) return;
+    // Both replies would answer the same message and branch the conversation
+    if (othersGenerating.length > 0) {
+      toast.info(`Wait for ${othersGenerating.map(collaboratorName).join(" and ")} to finish generating`);
+      return;
+    }
+    
+    const isConfigured = await getProvider(providerId).isConfigured();
+    if (!isConfigured) {
+      openProviderSettings();
+      return;
+    }
+
+    // State updates land on the next render, so keep the id of a freshly created conversation locally
+    let activeConversationId = conversationId;
+    if (!activeConversationId) {
+      activeConversationId = await createConversation(undefined, {
+        provider: providerId,
+        showId: activeShowId,
+        persona: personaSelection,
+        generationSettings,
+        workspaceId
+      });
+      if (!activeConversationId) {
+        toast.error("Failed to create conversation");
+        return;
+      }
+      setConversationId(activeConversationId);
+    }
+    
+    // A failed reply was never saved, so the new message follows the last saved one
+    const history = messages.filter(msg => !msg.error);
+    const userMessage: Message = {
+      id: uuidv4(),
+      role: "user",
+      content,
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      timestamp: new Date()
+    };
+    
+    setMessages([...history, userMessage]);
+    
+    await saveMessage(activeConversationId, userMessage);
+    
+    if (messages.length === 0) {
+      await updateConversationTitleWithFirstMessage(activeConversationId, content);
+    }
+    
+    await streamAssistantReply(activeConversationId, userMessage, history, false);
+  };
+
+  // Generates another version of the assistant reply at `index`
+  const handleRegenerate = async (index: number) => {
+    if (isProcessing || !conversationId) return;
+    
+    const prompt = messages[index - 1];
+    if (!prompt || prompt.role !== "user") return;
+    
+    setMessages(messages.slice(0, index));
+    await streamAssistantReply(conversationId, prompt, messages.slice(0, index - 1), true);
+  };
+
+  // Saves an edited copy of the user prompt at `index` as a new version and answers it
+  const handleEdit = async (index: number, content: string) => {
+    if (isProcessing || !conversationId) return;
+    
+    const original = messages[index];
+    const editedMessage: Message = {
+      id: uuidv4(),
+      role: "user",
+      content,
+      parentId: original.parentId ?? null,
+      timestamp: new Date()
+    };
+    
+    setMessages([...messages.slice(0, index), editedMessage]);
+    await saveMessage(conversationId, editedMessage);
+    await setActiveVariant(conversationId, editedMessage.id, editedMessage.parentId);
+    
+    await streamAssistantReply(conversationId, editedMessage, messages.slice(0, index), false);
+    setMessages(await getConversationMessages(conversationId));
+  };
+
+  const handleFork = async (message: Message) => {
+    if (isProcessing || !conversationId) return;
+    
+    const forkId = await forkConversation(conversationId, message.id);
+    if (forkId) {
+      toast.success("Forked into a new conversation");
+      setRefreshSidebarTrigger(prev => prev + 1);
+      await loadConversation(forkId);
+    }
+  };
+
+  const handleSelectVariant = async (message: Message, variantId: string) => {
+    if (isProcessing || !conversationId) return;
+    
+    const success = await setActiveVariant(conversationId, variantId, message.parentId ?? null);
+    if (success) {
+      setMessages(await getConversationMessages(conversationId));
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleNewChat = async () => {
     if (isProcessing) return;
     
     if (messages.length === 0) {
       setConversationId(null);
+      setForkParent(null);
+      setContextState(EMPTY_CONTEXT);
       setMessages([]);
       return;
     }
     
     setConversationId(null);
+    setForkParent(null);
+    setContextState(EMPTY_CONTEXT);
     setMessages([]);
     setRefreshSidebarTrigger(prev => prev + 1);
     toast.success("Started a new chat");
@@ -237,9 +743,11 @@ const Index = () => {
         <ConversationSidebar 
           currentConversationId={conversationId}
           onSelectConversation={loadConversation}
+          onSelectSearchResult={openSearchResult}
           onNewChat={handleNewChat}
           onConversationDeleted={handleConversationDeleted}
           refreshTrigger={refreshSidebarTrigger}
+          collaborators={collaborators}
         />
       </div>
       
@@ -251,6 +759,41 @@ const Index = () => {
               <h1 className="text-xl md:text-2xl font-bold gradient-text">PodcastGPT</h1>
             </div>
             <div className="flex items-center gap-2">
+              <ProviderSelector
+                value={providerId}
+                onChange={handleProviderChange}
+                onConfigure={() => openProviderSettings()}
+                disabled={isProcessing}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground"
+                onClick={() => setSummaryPanelOpen(true)}
+                disabled={!conversationId}
+                title="Conversation context"
+              >
+                <ScrollText className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground"
+                onClick={() => setSettingsPanelOpen(true)}
+                title="Generation settings"
+              >
+                <SlidersHorizontal className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground"
+                onClick={() => setShareDialogOpen(true)}
+                disabled={!conversationId}
+                title="Share conversation"
+              >
+                <Share2 className="h-5 w-5" />
+              </Button>
               <Button
                 variant="ghost"
                 className="text-muted-foreground md:hidden"
@@ -262,11 +805,18 @@ const Index = () => {
                 variant="ghost"
                 className="text-muted-foreground hidden md:flex"
                 onClick={handleNewChat}
-                disabled={isProcessing}
+                disabled={isProcessing || !canEdit}
               >
                 <Plus className="mr-2 h-4 w-4" />
                 New Chat
               </Button>
+              <ShowSelector
+                shows={shows}
+                value={activeShowId}
+                onChange={handleShowChange}
+                onShowsChange={setShows}
+                disabled={isProcessing || !canEdit}
+              />
               <UserMenu />
             </div>
           </div>
@@ -289,17 +839,29 @@ const Index = () => {
                 loadConversation(id);
                 setIsMobileSidebarOpen(false);
               }}
+              onSelectSearchResult={(id, messageId) => {
+                openSearchResult(id, messageId);
+                setIsMobileSidebarOpen(false);
+              }}
               onNewChat={() => {
                 handleNewChat();
                 setIsMobileSidebarOpen(false);
               }}
               onConversationDeleted={handleConversationDeleted}
               refreshTrigger={refreshSidebarTrigger}
+              collaborators={collaborators}
             />
           </div>
         )}
         
-        {messages.length === 0 && (
+        {conversationId && (
+          <div className="flex items-center justify-between gap-2 border-b border-border/40 px-4 py-2">
+            <span className="truncate text-sm font-medium">{conversationTitle}</span>
+            <CollaboratorAvatars collaborators={viewers} />
+          </div>
+        )}
+
+        {messages.length === 0 && canEdit && (
           <div className="p-4">
             {userInterests.length > 0 && renderUserInterests()}
             <PodcastThemeSelector onThemeSelect={handleThemeSelect} />
@@ -310,29 +872,107 @@ const Index = () => {
           <div className="flex flex-col h-full">
             <ScrollArea className="flex-1 p-4">
               <div className="max-w-4xl mx-auto space-y-4">
-                {messages.map((message) => (
-                  <ChatMessage key={message.id} message={message} />
+                {forkParent && (
+                  <button
+                    className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground"
+                    onClick={() => loadConversation(forkParent.id)}
+                  >
+                    <GitBranch className="h-3.5 w-3.5" />
+                    Forked from "{forkParent.title}"
+                  </button>
+                )}
+                {messages.map((message, index) => (
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    highlighted={message.id === highlightedMessageId}
+                    disabled={isProcessing || !canEdit}
+                    onRegenerate={() => handleRegenerate(index)}
+                    onEdit={(content) => handleEdit(index, content)}
+                    onSelectVariant={(variantId) => handleSelectVariant(message, variantId)}
+                    onFork={message.error ? undefined : () => handleFork(message)}
+                    onContinue={() => handleContinue(index)}
+                    onRetry={() => handleRegenerate(index)}
+                  />
                 ))}
                 {isTyping && currentResponseId === null && <TypingIndicator />}
                 <div ref={messagesEndRef} />
               </div>
             </ScrollArea>
             <div className="p-4 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-t border-border/40">
-              <div className="max-w-4xl mx-auto">
-                <ChatInput 
-                  onSubmit={handleSubmit} 
-                  isProcessing={isProcessing} 
-                  placeholder="Ask about podcast research or scriptwriting..." 
+              <div className="max-w-4xl mx-auto space-y-2">
+                <PersonaSelector
+                  presets={personaPresets}
+                  value={personaSelection}
+                  onChange={handlePersonaChange}
+                  onPresetsChange={setPersonaPresets}
+                  disabled={isProcessing || !canEdit}
                 />
+                {othersGenerating.length > 0 && (
+                  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {othersGenerating.map(collaboratorName).join(" and ")}{" "}
+                    {othersGenerating.length === 1 ? "is" : "are"} generating a reply...
+                  </p>
+                )}
+                {canEdit ? (
+                  <ChatInput 
+                    onSubmit={handleSubmit} 
+                    isProcessing={isProcessing} 
+                    onStop={handleStop}
+                    placeholder="Ask about podcast research or scriptwriting..." 
+                  />
+                ) : (
+                  <p className="rounded-lg border p-4 text-center text-sm text-muted-foreground">
+                    You can read the conversations in {activeWorkspace?.name}, but only its editors can write in it.
+                  </p>
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
       
-      <ApiKeyModal 
-        open={apiKeyModalOpen} 
-        onClose={() => setApiKeyModalOpen(false)}
+      <ConversationSummaryPanel
+        open={summaryPanelOpen}
+        onClose={() => setSummaryPanelOpen(false)}
+        conversationId={conversationId}
+        messages={messages}
+        context={contextState}
+        onContextChange={setContextState}
+      />
+      
+      <GenerationSettingsPanel
+        open={settingsPanelOpen}
+        onClose={() => setSettingsPanelOpen(false)}
+        provider={providerId}
+        settings={generationSettings}
+        onSave={handleGenerationSettingsSave}
+        readOnly={!canEdit}
+      />
+      
+      <ShareConversationDialog
+        open={shareDialogOpen}
+        conversationId={conversationId}
+        onClose={() => setShareDialogOpen(false)}
+      />
+      
+      <SearchPalette onSelectResult={openSearchResult} />
+      
+      <ProviderConfigModal
+        provider={providerId}
+        open={providerConfigOpen}
+        onClose={() => setProviderConfigOpen(false)}
+        onManageKeys={() => {
+          setProviderConfigOpen(false);
+          setKeyVaultOpen(true);
+        }}
+      />
+
+      <ApiKeyVaultDialog
+        open={keyVaultOpen}
+        onClose={() => setKeyVaultOpen(false)}
+        provider={providerId === "openai" ? "openai" : "gemini"}
       />
     </div>
   );
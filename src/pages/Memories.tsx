@@ -0,0 +1,242 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Brain, Check, Pencil, Pin, PinOff, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  MEMORY_CATEGORIES,
+  MemoryCategory,
+  UserMemory,
+  createMemory,
+  deleteMemory,
+  getUserMemories,
+  updateMemory
+} from "@/services/memoryService";
+
+const categoryLabel = (category: MemoryCategory) =>
+  MEMORY_CATEGORIES.find(item => item.value === category)?.label ?? category;
+
+const Memories = () => {
+  const [memories, setMemories] = useState<UserMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newCategory, setNewCategory] = useState<MemoryCategory>("show_name");
+  const [newContent, setNewContent] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+
+  const loadMemories = async () => {
+    setLoading(true);
+    setMemories(await getUserMemories());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadMemories();
+  }, []);
+
+  const applyUpdate = async (memory: UserMemory, changes: Partial<UserMemory>) => {
+    const success = await updateMemory(memory.id, changes);
+    if (success) {
+      setMemories(prev => prev.map(item => item.id === memory.id ? { ...item, ...changes } : item));
+    }
+    return success;
+  };
+
+  const handleAdd = async () => {
+    if (!newContent.trim()) return;
+    const memory = await createMemory(newCategory, newContent.trim());
+    if (memory) {
+      setMemories(prev => [memory, ...prev]);
+      setNewContent("");
+      toast.success("Memory saved");
+    }
+  };
+
+  const handleDelete = async (memory: UserMemory) => {
+    const success = await deleteMemory(memory.id);
+    if (success) {
+      setMemories(prev => prev.filter(item => item.id !== memory.id));
+    }
+  };
+
+  const handleSaveEdit = async (memory: UserMemory) => {
+    if (!editContent.trim()) return;
+    if (await applyUpdate(memory, { content: editContent.trim() })) {
+      setEditingId(null);
+    }
+  };
+
+  const proposed = memories.filter(memory => memory.status === "proposed");
+  const active = memories.filter(memory => memory.status === "active");
+
+  const renderMemory = (memory: UserMemory) => (
+    <div
+      key={memory.id}
+      className={cn(
+        "flex items-start gap-3 rounded-lg border p-3",
+        memory.pinned && "border-podcast-primary/60"
+      )}
+    >
+      <Badge variant="secondary" className="shrink-0 text-xs font-normal">
+        {categoryLabel(memory.category)}
+      </Badge>
+      {editingId === memory.id ? (
+        <Input
+          value={editContent}
+          onChange={(e) => setEditContent(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSaveEdit(memory)}
+          className="h-8 flex-1"
+          autoFocus
+        />
+      ) : (
+        <p className="flex-1 text-sm">{memory.content}</p>
+      )}
+      <div className="flex shrink-0 items-center gap-1">
+        {memory.status === "proposed" ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => applyUpdate(memory, { status: "active" })}
+            title="Keep this memory"
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+        ) : editingId === memory.id ? (
+          <>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleSaveEdit(memory)} title="Save">
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} title="Cancel">
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => applyUpdate(memory, { pinned: !memory.pinned })}
+              title={memory.pinned ? "Unpin" : "Pin (always sent to the model)"}
+            >
+              {memory.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => {
+                setEditingId(memory.id);
+                setEditContent(memory.content);
+              }}
+              title="Edit"
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => handleDelete(memory)}
+          title={memory.status === "proposed" ? "Dismiss" : "Delete"}
+        >
+          <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" title="Back to chat">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <Brain className="h-5 w-5 text-podcast-primary" />
+          <h1 className="text-xl md:text-2xl font-bold gradient-text">Memory</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add a memory</CardTitle>
+            <CardDescription>
+              Facts about your shows that PodcastGPT should keep in mind. Pinned memories are sent with
+              every message; the others only when they relate to what you ask.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2 sm:flex-row">
+            <Select value={newCategory} onValueChange={(value) => setNewCategory(value as MemoryCategory)}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEMORY_CATEGORIES.map(category => (
+                  <SelectItem key={category.value} value={category.value}>
+                    {category.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="e.g. The show is called Cold Case Files"
+              value={newContent}
+              onChange={(e) => setNewContent(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+            />
+            <Button
+              onClick={handleAdd}
+              disabled={!newContent.trim()}
+              className="bg-podcast-primary hover:bg-podcast-secondary"
+            >
+              Add
+            </Button>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-podcast-primary"></div>
+          </div>
+        ) : (
+          <>
+            {proposed.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Suggested by PodcastGPT</CardTitle>
+                  <CardDescription>Keep the ones that are right; dismiss the rest.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {proposed.map(renderMemory)}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Saved memories</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {active.length > 0 ? active.map(renderMemory) : (
+                  <p className="text-center text-sm text-muted-foreground">No memories yet</p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Memories;
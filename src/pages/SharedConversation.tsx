@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Eye, Link2Off, Mic } from "lucide-react";
+import { ChatMessage } from "@/components/ChatMessage";
+import { SharedConversation as SharedConversationData, getSharedConversation } from "@/services/shareService";
+
+// Read-only view of a conversation opened through a share link; needs no account
+const SharedConversation = () => {
+  const { token } = useParams<{ token: string }>();
+  const [conversation, setConversation] = useState<SharedConversationData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    getSharedConversation(token).then(loaded => {
+      setConversation(loaded);
+      setLoading(false);
+    });
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-podcast-primary"></div>
+      </div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-3 bg-background p-4 text-center">
+        <Link2Off className="h-10 w-10 text-muted-foreground" />
+        <h1 className="text-xl font-bold">This link is not available</h1>
+        <p className="max-w-sm text-sm text-muted-foreground">
+          It may have expired or been revoked. Ask the person who shared it for a new link.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/40 p-4">
+        <div className="mx-auto flex max-w-3xl items-center gap-2">
+          <Mic className="h-5 w-5 text-podcast-primary" />
+          <span className="text-xl font-bold gradient-text">PodcastGPT</span>
+          <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+            <Eye className="h-3.5 w-3.5" />
+            Read-only
+          </span>
+        </div>
+      </header>
+      <main className="mx-auto max-w-3xl space-y-4 p-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-bold">{conversation.title}</h1>
+          {conversation.synopsis && <p className="text-muted-foreground">{conversation.synopsis}</p>}
+          <p className="text-xs text-muted-foreground">
+            Started {format(new Date(conversation.created_at), "MMM d, yyyy")}
+            {" · "}Updated {format(new Date(conversation.updated_at), "MMM d, yyyy")}
+            {conversation.expires_at && ` · Link expires ${format(new Date(conversation.expires_at), "MMM d, yyyy HH:mm")}`}
+          </p>
+        </div>
+        <div className="space-y-4">
+          {conversation.messages.map(message => (
+            <ChatMessage key={message.id} message={message} userLabel="Host" />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedConversation;
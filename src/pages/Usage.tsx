@@ -0,0 +1,344 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { format, startOfDay, subDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from "@/components/ui/chart";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  USAGE_TASK_LABELS,
+  UsageBudget,
+  UsageRecord,
+  UsageTask,
+  deleteUsageBudget,
+  formatCost,
+  getMonthlySpend,
+  getUsage,
+  getUsageBudget,
+  saveUsageBudget
+} from "@/services/usageService";
+
+type Metric = "cost" | "tokens";
+
+const RANGES = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+];
+
+const TOP_CONVERSATIONS = 10;
+
+const dailyConfig = {
+  prompt: { label: "Prompt tokens", color: "hsl(var(--primary))" },
+  reply: { label: "Reply tokens", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const metricConfig = (metric: Metric): ChartConfig => ({
+  value: { label: metric === "cost" ? "Cost (USD)" : "Tokens", color: "hsl(var(--primary))" },
+});
+
+// Sums cost or tokens per group, largest first
+const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string, metric: Metric) => {
+  const totals = new Map<string, number>();
+  for (const record of records) {
+    const key = keyOf(record);
+    totals.set(key, (totals.get(key) ?? 0) + (metric === "cost" ? record.cost_usd : record.total_tokens));
+  }
+  return [...totals.entries()]
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+};
+
+const showName = (record: UsageRecord) =>
+  record.show?.name ?? (record.show_id ? "Deleted show" : "No show");
+
+const conversationTitle = (record: UsageRecord) =>
+  record.conversation?.title ?? "Deleted conversation";
+
+const taskLabel = (record: UsageRecord) => USAGE_TASK_LABELS[record.task as UsageTask] ?? record.task;
+
+const Usage = () => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rangeDays, setRangeDays] = useState(30);
+  const [metric, setMetric] = useState<Metric>("cost");
+  const [budget, setBudget] = useState<UsageBudget | null>(null);
+  const [monthlySpend, setMonthlySpend] = useState(0);
+  const [limitInput, setLimitInput] = useState("");
+  const [alertPercentInput, setAlertPercentInput] = useState("80");
+
+  useEffect(() => {
+    setLoading(true);
+    getUsage(startOfDay(subDays(new Date(), rangeDays - 1))).then(loaded => {
+      setRecords(loaded);
+      setLoading(false);
+    });
+  }, [rangeDays]);
+
+  useEffect(() => {
+    getMonthlySpend().then(setMonthlySpend);
+    getUsageBudget().then(loaded => {
+      setBudget(loaded);
+      if (loaded) {
+        setLimitInput(String(loaded.monthly_limit_usd));
+        setAlertPercentInput(String(loaded.alert_percent));
+      }
+    });
+  }, []);
+
+  const daily = useMemo(() => {
+    const days = Array.from({ length: rangeDays }, (_, index) => {
+      const day = subDays(new Date(), rangeDays - 1 - index);
+      return { key: format(day, "yyyy-MM-dd"), date: format(day, "MMM d"), prompt: 0, reply: 0 };
+    });
+    const byKey = new Map(days.map(day => [day.key, day]));
+    for (const record of records) {
+      const day = byKey.get(format(new Date(record.created_at), "yyyy-MM-dd"));
+      if (!day) continue;
+      day.prompt += record.prompt_tokens;
+      day.reply += record.candidate_tokens;
+    }
+    return days;
+  }, [records, rangeDays]);
+
+  const byShow = useMemo(() => groupUsage(records, showName, metric), [records, metric]);
+  const byTask = useMemo(() => groupUsage(records, taskLabel, metric), [records, metric]);
+  const byConversation = useMemo(
+    () => groupUsage(records, conversationTitle, metric).slice(0, TOP_CONVERSATIONS),
+    [records, metric]
+  );
+
+  const totalCost = records.reduce((sum, record) => sum + record.cost_usd, 0);
+  const totalTokens = records.reduce((sum, record) => sum + record.total_tokens, 0);
+  const formatValue = (value: number) => metric === "cost" ? formatCost(value) : value.toLocaleString();
+
+  const handleSaveBudget = async () => {
+    const limit = parseFloat(limitInput);
+    const alertPercent = parseInt(alertPercentInput, 10);
+    if (!(limit > 0) || !(alertPercent >= 1 && alertPercent <= 100)) {
+      toast.error("Enter a positive limit and an alert level between 1 and 100%");
+      return;
+    }
+
+    const next = { monthly_limit_usd: limit, alert_percent: alertPercent };
+    if (await saveUsageBudget(next)) {
+      setBudget(next);
+      toast.success("Budget saved");
+    }
+  };
+
+  const handleRemoveBudget = async () => {
+    if (await deleteUsageBudget()) {
+      setBudget(null);
+      setLimitInput("");
+      setAlertPercentInput("80");
+    }
+  };
+
+  const budgetPercent = budget ? Math.min(100, monthlySpend / budget.monthly_limit_usd * 100) : 0;
+
+  const renderGroupChart = (data: { name: string; value: number }[], emptyLabel: string) =>
+    data.length === 0 ? (
+      <p className="text-center text-sm text-muted-foreground">{emptyLabel}</p>
+    ) : (
+      <ChartContainer config={metricConfig(metric)} className="w-full" style={{ height: 40 + data.length * 36 }}>
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" tickFormatter={formatValue} tickLine={false} axisLine={false} />
+          <YAxis
+            type="category"
+            dataKey="name"
+            width={140}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(name: string) => name.length > 20 ? `${name.substring(0, 20)}...` : name}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    );
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" title="Back to chat">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <BarChart3 className="h-5 w-5 text-podcast-primary" />
+          <h1 className="text-xl md:text-2xl font-bold gradient-text">Usage</h1>
+          <div className="ml-auto flex gap-2">
+            <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cost">Cost</SelectItem>
+                <SelectItem value="tokens">Tokens</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(parseInt(value, 10))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(range => (
+                  <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Monthly budget</CardTitle>
+            <CardDescription>
+              Costs are estimated from each model's list price. You are warned when this month's spend
+              crosses the alert level and again when it goes over the limit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {budget && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{formatCost(monthlySpend)} spent this month</span>
+                  <span className="text-muted-foreground">of {formatCost(budget.monthly_limit_usd)}</span>
+                </div>
+                <Progress
+                  value={budgetPercent}
+                  className={cn(budgetPercent >= budget.alert_percent && "[&>div]:bg-destructive")}
+                />
+              </div>
+            )}
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="budget-limit">Monthly limit (USD)</Label>
+                <Input
+                  id="budget-limit"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={limitInput}
+                  onChange={(e) => setLimitInput(e.target.value)}
+                  className="sm:w-40"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget-alert">Alert at (%)</Label>
+                <Input
+                  id="budget-alert"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={alertPercentInput}
+                  onChange={(e) => setAlertPercentInput(e.target.value)}
+                  className="sm:w-28"
+                />
+              </div>
+              <Button onClick={handleSaveBudget} className="bg-podcast-primary hover:bg-podcast-secondary">
+                Save budget
+              </Button>
+              {budget && (
+                <Button variant="outline" onClick={handleRemoveBudget}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-podcast-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Estimated cost</CardDescription>
+                  <CardTitle>{formatCost(totalCost)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Tokens</CardDescription>
+                  <CardTitle>{totalTokens.toLocaleString()}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Tokens per day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={dailyConfig} className="h-64 w-full">
+                  <BarChart data={daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={56} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="prompt" stackId="tokens" fill="var(--color-prompt)" />
+                    <Bar dataKey="reply" stackId="tokens" fill="var(--color-reply)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By show</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {renderGroupChart(byShow, "No usage in this period")}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By task</CardTitle>
+                <CardDescription>
+                  Summaries, memory suggestions and titles are requested in the background after a reply.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderGroupChart(byTask, "No usage in this period")}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Top conversations</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {renderGroupChart(byConversation, "No usage in this period")}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/integrations/supabase/functions";
+import { toast } from "sonner";
+
+// Providers whose requests go through secure_api_call and can use a vault key
+export type KeyProvider = "gemini" | "openai";
+
+export const KEY_PROVIDERS: { id: KeyProvider; label: string }[] = [
+  { id: "gemini", label: "Gemini" },
+  { id: "openai", label: "OpenAI-compatible" },
+];
+
+// A vault entry as the browser sees it; the encrypted key itself is never selectable
+export interface StoredApiKey {
+  id: string;
+  provider: KeyProvider;
+  label: string;
+  key_hint: string;
+  is_default: boolean;
+  last_tested_at: string | null;
+  last_test_ok: boolean | null;
+  created_at: string;
+}
+
+export interface KeyTestResult {
+  ok: boolean;
+  message: string;
+  key?: StoredApiKey;
+}
+
+const PUBLIC_COLUMNS = "id, provider, label, key_hint, is_default, last_tested_at, last_test_ok, created_at";
+
+export const getApiKeys = async (): Promise<StoredApiKey[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("user_api_keys")
+      .select(PUBLIC_COLUMNS)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []) as StoredApiKey[];
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    toast.error("Failed to load API keys");
+    return [];
+  }
+};
+
+export const hasDefaultApiKey = async (provider: KeyProvider): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from("user_api_keys")
+    .select("id", { count: "exact", head: true })
+    .eq("provider", provider)
+    .eq("is_default", true);
+
+  if (error) {
+    console.error("Error checking the default API key:", error);
+    return false;
+  }
+  return (count ?? 0) > 0;
+};
+
+// The key is sent once to manage_api_keys, which encrypts it before it is stored
+export const addApiKey = async (
+  provider: KeyProvider,
+  label: string,
+  apiKey: string,
+  makeDefault: boolean
+): Promise<StoredApiKey | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke("manage_api_keys", {
+      body: { action: "create", provider, label, apiKey, makeDefault },
+    });
+
+    if (error) {
+      toast.error(await functionErrorMessage(error, "Failed to save API key"));
+      return null;
+    }
+    return data.key as StoredApiKey;
+  } catch (error) {
+    console.error("Error adding API key:", error);
+    toast.error("Failed to save API key");
+    return null;
+  }
+};
+
+// Makes a cheap authenticated call with the key; OpenAI-compatible keys are tested against baseUrl
+export const testApiKey = async (id: string, baseUrl?: string): Promise<KeyTestResult | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke("manage_api_keys", {
+      body: { action: "test", id, baseUrl },
+    });
+
+    if (error) {
+      toast.error(await functionErrorMessage(error, "Failed to test API key"));
+      return null;
+    }
+    return data as KeyTestResult;
+  } catch (error) {
+    console.error("Error testing API key:", error);
+    toast.error("Failed to test API key");
+    return null;
+  }
+};
+
+export const setDefaultApiKey = async (key: StoredApiKey): Promise<boolean> => {
+  try {
+    // Clear the current default first; a unique index allows only one per provider
+    const { error: clearError } = await supabase
+      .from("user_api_keys")
+      .update({ is_default: false })
+      .eq("provider", key.provider)
+      .eq("is_default", true);
+
+    if (clearError) throw clearError;
+
+    const { error } = await supabase
+      .from("user_api_keys")
+      .update({ is_default: true })
+      .eq("id", key.id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error setting default API key:", error);
+    toast.error("Failed to set default API key");
+    return false;
+  }
+};
+
+// Deletes the key and its ciphertext; Gemini then falls back to the shared server key, if any
+export const revokeApiKey = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("user_api_keys")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    toast.error("Failed to revoke API key");
+    return false;
+  }
+};
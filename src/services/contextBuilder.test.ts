@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { buildContextWindow, estimateTokens } from "./contextBuilder";
+import { Message } from "./geminiService";
+
+// Each message is `tokens` estimated tokens long
+const message = (id: string, tokens: number): Message => ({
+  id,
+  role: "user",
+  content: "x".repeat(tokens * 4),
+  timestamp: new Date(0),
+});
+
+const ids = (messages: Message[]) => messages.map(msg => msg.id);
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token, rounding up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("buildContextWindow", () => {
+  it("includes everything that fits", () => {
+    const history = [message("a", 10), message("b", 10)];
+    const window = buildContextWindow(history, 100);
+
+    expect(ids(window.included)).toEqual(["a", "b"]);
+    expect(window.dropped).toEqual([]);
+    expect(window.usedTokens).toBe(20);
+  });
+
+  it("keeps the newest messages and drops the oldest, both oldest first", () => {
+    const history = [message("a", 10), message("b", 10), message("c", 10), message("d", 10)];
+    const window = buildContextWindow(history, 25);
+
+    expect(ids(window.included)).toEqual(["c", "d"]);
+    expect(ids(window.dropped)).toEqual(["a", "b"]);
+    expect(window.usedTokens).toBe(20);
+  });
+
+  it("stops at the first message that does not fit, so the window stays contiguous", () => {
+    const history = [message("a", 1), message("b", 50), message("c", 10)];
+    const window = buildContextWindow(history, 20);
+
+    expect(ids(window.included)).toEqual(["c"]);
+    expect(ids(window.dropped)).toEqual(["a", "b"]);
+  });
+
+  it("includes nothing when the newest message is over budget", () => {
+    const window = buildContextWindow([message("a", 1), message("b", 30)], 20);
+
+    expect(window.included).toEqual([]);
+    expect(window.usedTokens).toBe(0);
+  });
+});
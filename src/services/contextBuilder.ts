@@ -0,0 +1,34 @@
+import { Message } from "@/services/geminiService";
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 8000;
+
+// Rough token count (about four characters per token for English text), good enough for budgeting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface ContextWindow {
+  // Newest messages that fit in the budget, oldest first
+  included: Message[];
+  // Older messages that did not fit, oldest first
+  dropped: Message[];
+  usedTokens: number;
+}
+
+// Packs history newest-first until the token budget is spent.
+// Packing stops at the first message that does not fit, so the window is always a contiguous tail.
+export const buildContextWindow = (history: Message[], tokenBudget: number): ContextWindow => {
+  let usedTokens = 0;
+  let firstIncluded = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i].content);
+    if (usedTokens + tokens > tokenBudget) break;
+    usedTokens += tokens;
+    firstIncluded = i;
+  }
+
+  return {
+    included: history.slice(firstIncluded),
+    dropped: history.slice(0, firstIncluded),
+    usedTokens,
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { buildActivePath } from "./conversationService";
+
+type Row = Parameters<typeof buildActivePath>[0][number];
+
+let clock = 0;
+// Rows are created in timestamp order, as getConversationMessages sorts them
+const row = (id: string, parentId: string | null, isActive = true, role = "user"): Row => ({
+  id,
+  parent_id: parentId,
+  is_active: isActive,
+  role,
+  content: `content of ${id}`,
+  status: "complete",
+  safety_feedback: null,
+  timestamp: new Date(++clock * 1000).toISOString(),
+});
+
+describe("buildActivePath", () => {
+  it("returns nothing for an empty conversation", () => {
+    expect(buildActivePath([])).toEqual([]);
+  });
+
+  it("follows a linear conversation from the root", () => {
+    const path = buildActivePath([row("u1", null), row("a1", "u1", true, "assistant"), row("u2", "a1")]);
+
+    expect(path.map(msg => msg.id)).toEqual(["u1", "a1", "u2"]);
+    expect(path[1]).toMatchObject({ role: "assistant", content: "content of a1", parentId: "u1", variantIds: ["a1"] });
+    expect(path[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("follows the active version at every level and lists all versions", () => {
+    const path = buildActivePath([
+      row("u1", null),
+      row("a1", "u1", false, "assistant"),
+      row("a2", "u1", true, "assistant"),
+      row("u2-old", "a1"),
+      row("u2", "a2"),
+    ]);
+
+    expect(path.map(msg => msg.id)).toEqual(["u1", "a2", "u2"]);
+    expect(path[1].variantIds).toEqual(["a1", "a2"]);
+  });
+
+  it("prefers the most recent active sibling", () => {
+    const path = buildActivePath([row("u1", null), row("a1", "u1"), row("a2", "u1")]);
+
+    expect(path[1].id).toBe("a2");
+  });
+
+  it("falls back to the newest sibling when none is active", () => {
+    const path = buildActivePath([row("u1", null), row("a1", "u1", false), row("a2", "u1", false)]);
+
+    expect(path[1].id).toBe("a2");
+  });
+});
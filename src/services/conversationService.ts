@@ -3,16 +3,105 @@ import { supabase } from "@/integrations/supabase/client";
 import { v4 as uuidv4 } from "uuid";
 import { Message } from "@/services/geminiService";
 import { toast } from "sonner";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { GenerationSettings, SafetyFeedback, parseGenerationSettings } from "@/services/providers";
+
+export type TitleSource = "placeholder" | "generated" | "manual";
 
 export interface Conversation {
   id: string;
   title: string;
+  // A TitleSource; only placeholder titles are replaced by a generated one, manual ones never are
+  title_source: string;
+  // One-line description generated with the title
+  synopsis: string | null;
+  provider: string;
+  show_id: string | null;
+  persona_preset_id: string | null;
+  persona_version: number | null;
+  parent_conversation_id: string | null;
+  forked_from_message_id: string | null;
+  summary: string | null;
+  summary_through_message_id: string | null;
+  context_token_budget: number;
+  // Read with parseGenerationSettings, which fills in the defaults
+  generation_settings: Json;
+  // The current user's own organization of the conversation, from conversation_organization
+  folder_id: string | null;
+  tags: string[];
+  pinned: boolean;
+  // Archived conversations are hidden from the sidebar unless the archive filter is on
+  archived_at: string | null;
+  // Set on imported conversations: "chatgpt" or "podcastgpt", and the id in that archive
+  import_source: string | null;
+  import_source_id: string | null;
+  // The workspace the conversation belongs to; null for the creator's personal space
+  workspace_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Sidebar organization fields; changing them does not count as activity in the conversation
+export type ConversationOrganization = Partial<Pick<Conversation, "folder_id" | "tags" | "pinned" | "archived_at">>;
+
+export type ConversationRow = Database["public"]["Tables"]["conversations"]["Row"];
+
+// Embeds the caller's organization row; RLS only returns their own, so there is at most one
+const CONVERSATION_COLUMNS = "*, conversation_organization(folder_id, tags, pinned, archived_at)";
+
+const UNORGANIZED: Required<ConversationOrganization> = { folder_id: null, tags: [], pinned: false, archived_at: null };
+
+// A conversation row with the current user's organization, or none for a conversation they never organized
+export const toConversation = (row: ConversationRow, organization?: ConversationOrganization): Conversation => ({
+  ...row,
+  ...UNORGANIZED,
+  ...organization,
+});
+
+const fromOrganizedRow = ({
+  conversation_organization,
+  ...row
+}: ConversationRow & { conversation_organization: ConversationOrganization[] }): Conversation =>
+  toConversation(row, conversation_organization[0]);
+
+// A persona preset pinned to the version a conversation was run with
+export interface PersonaSelection {
+  presetId: string;
+  version: number;
+}
+
+export interface CreateConversationOptions {
+  provider?: string;
+  showId?: string | null;
+  persona?: PersonaSelection | null;
+  generationSettings?: GenerationSettings;
+  parentConversationId?: string;
+  forkedFromMessageId?: string;
+  workspaceId?: string | null;
+  tags?: string[];
+  // Imports keep the original dates and record where the conversation came from
+  createdAt?: Date;
+  updatedAt?: Date;
+  importSource?: { source: string; sourceId: string };
+}
+
 // Create a new conversation
-export const createConversation = async (title = "New Conversation"): Promise<string | null> => {
+export const createConversation = async (
+  title = "New Conversation",
+  {
+    provider = "gemini",
+    showId,
+    persona,
+    generationSettings,
+    parentConversationId,
+    forkedFromMessageId,
+    workspaceId,
+    tags,
+    createdAt,
+    updatedAt,
+    importSource
+  }: CreateConversationOptions = {}
+): Promise<string | null> => {
   try {
     // Get the current user
     const { data: { user } } = await supabase.auth.getUser();
@@ -25,6 +114,18 @@ export const createConversation = async (title = "New Conversation"): Promise<st
       .from("conversations")
       .insert({ 
         title, 
+        provider,
+        show_id: showId ?? null,
+        persona_preset_id: persona?.presetId ?? null,
+        persona_version: persona?.version ?? null,
+        ...(generationSettings && { generation_settings: { ...generationSettings } }),
+        parent_conversation_id: parentConversationId ?? null,
+        forked_from_message_id: forkedFromMessageId ?? null,
+        workspace_id: workspaceId ?? null,
+        ...(createdAt && { created_at: createdAt.toISOString() }),
+        ...(updatedAt && { updated_at: updatedAt.toISOString() }),
+        import_source: importSource?.source ?? null,
+        import_source_id: importSource?.sourceId ?? null,
         user_id: user.id  // Add the user_id from the authenticated user
       })
       .select("id")
@@ -34,6 +135,13 @@ export const createConversation = async (title = "New Conversation"): Promise<st
       console.error("Error creating conversation:", error);
       throw error;
     }
+
+    if (tags?.length) {
+      const { error: tagsError } = await supabase
+        .from("conversation_organization")
+        .insert({ user_id: user.id, conversation_id: data.id, tags });
+      if (tagsError) throw tagsError;
+    }
     
     console.log("Created conversation with ID:", data.id);
     return data.id;
@@ -44,8 +152,8 @@ export const createConversation = async (title = "New Conversation"): Promise<st
   }
 };
 
-// Get all conversations for the current user
-export const getUserConversations = async (): Promise<Conversation[]> => {
+// Get the conversations of a workspace, or the current user's personal ones when workspaceId is null
+export const getUserConversations = async (workspaceId: string | null = null): Promise<Conversation[]> => {
   try {
     // Get the current user
     const { data: { user } } = await supabase.auth.getUser();
@@ -54,11 +162,12 @@ export const getUserConversations = async (): Promise<Conversation[]> => {
       return [];
     }
 
-    const { data, error } = await supabase
-      .from("conversations")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("updated_at", { ascending: false });
+    let query = supabase.from("conversations").select(CONVERSATION_COLUMNS);
+    query = workspaceId
+      ? query.eq("workspace_id", workspaceId)
+      : query.eq("user_id", user.id).is("workspace_id", null);
+
+    const { data, error } = await query.order("updated_at", { ascending: false });
 
     if (error) {
       console.error("Error fetching conversations:", error);
@@ -66,7 +175,7 @@ export const getUserConversations = async (): Promise<Conversation[]> => {
     }
     
     console.log("Retrieved conversations count:", data?.length || 0);
-    return data || [];
+    return (data ?? []).map(fromOrganizedRow);
   } catch (error: any) {
     console.error("Error fetching conversations:", error);
     toast.error("Failed to load conversations");
@@ -79,12 +188,12 @@ export const getConversation = async (id: string): Promise<Conversation | null>
   try {
     const { data, error } = await supabase
       .from("conversations")
-      .select("*")
+      .select(CONVERSATION_COLUMNS)
       .eq("id", id)
       .single();
 
     if (error) throw error;
-    return data;
+    return fromOrganizedRow(data);
   } catch (error: any) {
     console.error("Error fetching conversation:", error);
     toast.error("Failed to load conversation");
@@ -92,12 +201,16 @@ export const getConversation = async (id: string): Promise<Conversation | null>
   }
 };
 
-// Update conversation title
-export const updateConversationTitle = async (id: string, title: string): Promise<boolean> => {
+// Update conversation title; titles typed by the user are saved with source "manual"
+export const updateConversationTitle = async (
+  id: string,
+  title: string,
+  source: TitleSource = "placeholder"
+): Promise<boolean> => {
   try {
     const { error } = await supabase
       .from("conversations")
-      .update({ title, updated_at: new Date().toISOString() })
+      .update({ title, title_source: source, updated_at: new Date().toISOString() })
       .eq("id", id);
 
     if (error) throw error;
@@ -110,6 +223,149 @@ export const updateConversationTitle = async (id: string, title: string): Promis
   }
 };
 
+// Switch the LLM provider used by a conversation
+export const updateConversationProvider = async (id: string, provider: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversations")
+      .update({ provider })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating conversation provider:", error);
+    toast.error("Failed to update conversation provider");
+    return false;
+  }
+};
+
+// Attach a conversation to a show profile, or detach it with null
+export const updateConversationShow = async (id: string, showId: string | null): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversations")
+      .update({ show_id: showId })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating conversation show:", error);
+    toast.error("Failed to update conversation show");
+    return false;
+  }
+};
+
+// Organize a conversation in the current user's sidebar; other members keep their own organization
+export const updateConversationOrganization = async (
+  id: string,
+  changes: ConversationOrganization
+): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to organize conversations");
+      return false;
+    }
+
+    // Only the columns in `changes` are written, so an existing row keeps the others
+    const { error } = await supabase
+      .from("conversation_organization")
+      .upsert({ user_id: user.id, conversation_id: id, ...changes }, { onConflict: "user_id,conversation_id" });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error organizing conversation:", error);
+    toast.error("Failed to update conversation");
+    return false;
+  }
+};
+
+// Record which persona preset version the conversation uses, or clear it with null
+export const updateConversationPersona = async (
+  id: string,
+  persona: PersonaSelection | null
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversations")
+      .update({
+        persona_preset_id: persona?.presetId ?? null,
+        persona_version: persona?.version ?? null
+      })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating conversation persona:", error);
+    toast.error("Failed to update conversation persona");
+    return false;
+  }
+};
+
+// Save the model and sampling options used for the conversation's next replies
+export const updateConversationGenerationSettings = async (
+  id: string,
+  settings: GenerationSettings
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversations")
+      .update({ generation_settings: { ...settings } })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating generation settings:", error);
+    toast.error("Failed to save generation settings");
+    return false;
+  }
+};
+
+// Store the rolling summary; `throughMessageId` is the newest message it covers
+export const updateConversationSummary = async (
+  id: string,
+  summary: string,
+  throughMessageId?: string | null
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversations")
+      .update(throughMessageId === undefined
+        ? { summary }
+        : { summary, summary_through_message_id: throughMessageId })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating conversation summary:", error);
+    toast.error("Failed to save conversation summary");
+    return false;
+  }
+};
+
+// Change how many tokens of history are sent with each request
+export const updateContextTokenBudget = async (id: string, contextTokenBudget: number): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversations")
+      .update({ context_token_budget: contextTokenBudget })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating context budget:", error);
+    toast.error("Failed to save context budget");
+    return false;
+  }
+};
+
 // Delete a conversation
 export const deleteConversation = async (id: string): Promise<boolean> => {
   try {
@@ -137,17 +393,31 @@ export const deleteConversation = async (id: string): Promise<boolean> => {
   }
 };
 
-// Save a message to a conversation
-export const saveMessage = async (conversationId: string, message: Message): Promise<boolean> => {
+const messageRow = (conversationId: string, message: Message, isActive: boolean) => ({
+  id: message.id,
+  parent_id: message.parentId ?? null,
+  is_active: isActive,
+  conversation_id: conversationId,
+  role: message.role,
+  content: message.content,
+  status: message.status ?? "complete",
+  safety_feedback: (message.safetyFeedback ?? null) as unknown as Json,
+  timestamp: message.timestamp.toISOString()
+});
+
+// Rows per insert when saving many messages at once
+const MESSAGE_BATCH_SIZE = 500;
+
+// Save a message to a conversation; inactive messages are stored as alternative versions
+export const saveMessage = async (
+  conversationId: string,
+  message: Message,
+  isActive = true
+): Promise<boolean> => {
   try {
     const { error } = await supabase
       .from("messages")
-      .insert({
-        conversation_id: conversationId,
-        role: message.role,
-        content: message.content,
-        timestamp: message.timestamp.toISOString()
-      });
+      .insert(messageRow(conversationId, message, isActive));
 
     if (error) throw error;
     
@@ -164,7 +434,84 @@ export const saveMessage = async (conversationId: string, message: Message): Pro
   }
 };
 
-// Get all messages for a conversation
+// Save a whole history of active messages in a few inserts, e.g. an imported conversation.
+// Unlike saveMessage this leaves the conversation's updated_at alone.
+export const saveMessages = async (conversationId: string, messages: Message[]): Promise<boolean> => {
+  try {
+    for (let start = 0; start < messages.length; start += MESSAGE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from("messages")
+        .insert(messages.slice(start, start + MESSAGE_BATCH_SIZE).map(msg => messageRow(conversationId, msg, true)));
+
+      if (error) throw error;
+    }
+    return true;
+  } catch (error) {
+    console.error("Error saving messages:", error);
+    return false;
+  }
+};
+
+// Rewrite a saved message in place, e.g. when a truncated reply is continued
+export const updateMessage = async (
+  id: string,
+  changes: Pick<Message, "content" | "status">
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("messages")
+      .update({ content: changes.content, status: changes.status ?? "complete" })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating message:", error);
+    toast.error("Failed to save message");
+    return false;
+  }
+};
+
+// The columns buildActivePath reads; get_shared_conversation returns each message with only these
+export type MessageRow = Pick<
+  Database["public"]["Tables"]["messages"]["Row"],
+  "id" | "parent_id" | "is_active" | "role" | "content" | "status" | "safety_feedback" | "timestamp"
+>;
+
+// Walk the message tree from the root, following the active version at every level
+export const buildActivePath = (rows: MessageRow[]): Message[] => {
+  const childrenByParent = new Map<string | null, MessageRow[]>();
+  for (const row of rows) {
+    const siblings = childrenByParent.get(row.parent_id) ?? [];
+    siblings.push(row);
+    childrenByParent.set(row.parent_id, siblings);
+  }
+
+  const path: Message[] = [];
+  let parentId: string | null = null;
+
+  while (childrenByParent.has(parentId)) {
+    const siblings = childrenByParent.get(parentId);
+    // Rows arrive sorted by timestamp, so the last active sibling is the most recent choice
+    const active = [...siblings].reverse().find(row => row.is_active) ?? siblings[siblings.length - 1];
+
+    path.push({
+      id: active.id,
+      role: active.role as "user" | "assistant", // Cast the role to the correct type
+      content: active.content,
+      status: active.status as Message["status"],
+      parentId: active.parent_id,
+      variantIds: siblings.map(row => row.id),
+      safetyFeedback: active.safety_feedback as unknown as SafetyFeedback | null,
+      timestamp: new Date(active.timestamp)
+    });
+    parentId = active.id;
+  }
+
+  return path;
+};
+
+// Get the messages of a conversation along its active versions
 export const getConversationMessages = async (conversationId: string): Promise<Message[]> => {
   try {
     const { data, error } = await supabase
@@ -175,12 +522,7 @@ export const getConversationMessages = async (conversationId: string): Promise<M
 
     if (error) throw error;
     
-    return data.map(msg => ({
-      id: msg.id,
-      role: msg.role as "user" | "assistant", // Cast the role to the correct type
-      content: msg.content,
-      timestamp: new Date(msg.timestamp)
-    }));
+    return buildActivePath(data);
   } catch (error: any) {
     console.error("Error fetching messages:", error);
     toast.error("Failed to load messages");
@@ -188,64 +530,105 @@ export const getConversationMessages = async (conversationId: string): Promise<M
   }
 };
 
-// Get the default Gemini API key
-export const getDefaultApiKey = async (): Promise<string | null> => {
+// Make a message the shown version among its siblings
+export const setActiveVariant = async (
+  conversationId: string,
+  messageId: string,
+  parentId: string | null
+): Promise<boolean> => {
   try {
-    const { data, error } = await supabase
-      .from("default_api_keys")
-      .select("api_key")
-      .eq("service_name", "gemini")
-      .single();
+    let siblingsQuery = supabase
+      .from("messages")
+      .update({ is_active: false })
+      .eq("conversation_id", conversationId)
+      .neq("id", messageId);
+    siblingsQuery = parentId ? siblingsQuery.eq("parent_id", parentId) : siblingsQuery.is("parent_id", null);
+
+    const { error: siblingsError } = await siblingsQuery;
+    if (siblingsError) throw siblingsError;
+
+    const { error } = await supabase
+      .from("messages")
+      .update({ is_active: true })
+      .eq("id", messageId);
 
     if (error) throw error;
-    return data.api_key;
-  } catch (error: any) {
-    console.error("Error fetching Gemini API key:", error);
-    return null;
+    return true;
+  } catch (error) {
+    console.error("Error switching message version:", error);
+    toast.error("Failed to switch message version");
+    return false;
   }
 };
 
-// Function to get common topics across all user conversations
-export const getUserInterests = async (): Promise<string[]> => {
+// Put a message on the active history, e.g. a search hit in an older version of a reply,
+// by activating it and every ancestor that is not the shown version
+export const activateMessagePath = async (conversationId: string, messageId: string): Promise<boolean> => {
   try {
-    // Get the current user
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return [];
-    
-    // Get all user messages
     const { data, error } = await supabase
       .from("messages")
-      .select(`
-        content, 
-        conversation_id,
-        conversations!inner(user_id)
-      `)
-      .eq("role", "user")
-      .eq("conversations.user_id", user.id)
-      .order("timestamp", { ascending: false })
-      .limit(100);
-    
-    if (error) {
-      console.error("Error fetching user interests:", error);
-      return [];
+      .select("id, parent_id, is_active")
+      .eq("conversation_id", conversationId);
+
+    if (error) throw error;
+
+    const rowsById = new Map((data ?? []).map(row => [row.id, row]));
+    let current = rowsById.get(messageId);
+    while (current) {
+      if (!current.is_active && !(await setActiveVariant(conversationId, current.id, current.parent_id))) {
+        return false;
+      }
+      current = current.parent_id ? rowsById.get(current.parent_id) : undefined;
     }
-    
-    if (!data || data.length === 0) return [];
-    
-    // Extract common topics from messages
-    const allText = data.map((msg: any) => msg.content).join(' ').toLowerCase();
-    
-    // List of common podcast topics to check against
-    const podcastTopics = [
-      "true crime", "comedy", "business", "news", "politics", 
-      "health", "science", "technology", "education", "sports",
-      "music", "arts", "fiction", "history", "interview"
-    ];
-    
-    // Return topics found in user messages
-    return podcastTopics.filter(topic => allText.includes(topic));
+    return true;
   } catch (error) {
-    console.error("Error processing user interests:", error);
-    return [];
+    console.error("Error activating message path:", error);
+    toast.error("Failed to open the message");
+    return false;
+  }
+};
+
+// Copy the active history of a conversation up to and including `messageId` into a new conversation
+export const forkConversation = async (id: string, messageId: string): Promise<string | null> => {
+  try {
+    const source = await getConversation(id);
+    if (!source) return null;
+
+    const history = await getConversationMessages(id);
+    const forkIndex = history.findIndex(msg => msg.id === messageId);
+    if (forkIndex === -1) {
+      throw new Error(`Message ${messageId} is not part of the active history`);
+    }
+
+    const forkId = await createConversation(`${source.title} (fork)`, {
+      provider: source.provider,
+      showId: source.show_id,
+      persona: source.persona_preset_id
+        ? { presetId: source.persona_preset_id, version: source.persona_version }
+        : null,
+      generationSettings: parseGenerationSettings(source.generation_settings),
+      parentConversationId: id,
+      forkedFromMessageId: messageId,
+      workspaceId: source.workspace_id,
+    });
+    if (!forkId) return null;
+
+    // Give the copies fresh ids and chain each one to the copy before it
+    let parentId: string | null = null;
+    const copies = history.slice(0, forkIndex + 1).map(msg => {
+      const copy = messageRow(forkId, { ...msg, id: uuidv4(), parentId }, true);
+      parentId = copy.id;
+      return copy;
+    });
+
+    const { error } = await supabase.from("messages").insert(copies);
+    if (error) throw error;
+
+    console.log("Forked conversation", id, "at message", messageId, "into", forkId);
+    return forkId;
+  } catch (error) {
+    console.error("Error forking conversation:", error);
+    toast.error("Failed to fork conversation");
+    return null;
   }
 };
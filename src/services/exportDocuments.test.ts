@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { toPdfText } from "./exportDocuments";
+
+describe("toPdfText", () => {
+  it("keeps Latin-1 text and the punctuation the standard fonts map", () => {
+    const text = "Café, naïve façade — “quoted” • 5 € … ½";
+    expect(toPdfText(text)).toBe(text);
+  });
+
+  it("replaces characters the standard fonts cannot show", () => {
+    expect(toPdfText("Привет 你好")).toBe("?????? ??");
+  });
+
+  it("replaces an emoji with one question mark rather than one per UTF-16 unit", () => {
+    expect(toPdfText("Great episode 😀!")).toBe("Great episode ?!");
+  });
+});
@@ -0,0 +1,175 @@
+import { jsPDF } from "jspdf";
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import {
+  ConversationExport,
+  describeConversation,
+  formatExportDate,
+  roleLabel
+} from "@/services/exportService";
+
+// Message markdown reduced to what the PDF and DOCX layouts distinguish
+interface Block {
+  kind: "heading" | "bullet" | "code" | "paragraph";
+  text: string;
+}
+
+const plainInline = (text: string) =>
+  text
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/(\*\*|__|`)/g, "")
+    .replace(/(^|\s)[*_]([^*_]+)[*_](?=\s|$|[.,;:!?])/g, "$1$2");
+
+const parseBlocks = (content: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: "paragraph", text: plainInline(paragraph.join(" ")) });
+    paragraph = [];
+  };
+
+  for (const line of content.split("\n")) {
+    if (line.trim().startsWith("```")) {
+      flush();
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      blocks.push({ kind: "code", text: line });
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^\s*(?:[-*+]|(\d+)\.)\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ kind: "heading", text: plainInline(heading[1]) });
+    } else if (bullet) {
+      flush();
+      blocks.push({ kind: "bullet", text: `${bullet[1] ? `${bullet[1]}.` : "•"} ${plainInline(bullet[2])}` });
+    } else if (line.trim() === "") {
+      flush();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+  return blocks;
+};
+
+const PAGE_MARGIN = 20; // mm
+const POINTS_TO_MM = 0.3528;
+
+// The standard PDF fonts only have glyphs for Latin-1 and the few Windows-1252 punctuation marks
+// that jsPDF maps onto them. Anything else (emoji, CJK, Cyrillic, ...) would come out garbled.
+const UNSUPPORTED_PDF_CHARACTERS = /[^\t\n\r\u0020-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E\u0192\u02C6\u02DC\u2013\u2014\u2018-\u201A\u201C-\u201E\u2020-\u2022\u2026\u2030\u2039\u203A\u20AC\u2122]/gu;
+
+// Replaces what the standard fonts cannot show with "?"
+export const toPdfText = (text: string) => text.replace(UNSUPPORTED_PDF_CHARACTERS, "?");
+
+export interface PdfExport {
+  blob: Blob;
+  replacedCharacters: boolean; // Some characters were shown as "?"
+}
+
+// A4 pages with the standard PDF fonts; each conversation starts on a new page
+export const buildPdf = (exports: ConversationExport[]): PdfExport => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const textWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+  let replacedCharacters = false;
+
+  const write = (
+    text: string,
+    { size = 10.5, style = "normal", font = "helvetica", color = 20, indent = 0, spaceAfter = 2 } = {}
+  ) => {
+    const printable = toPdfText(text);
+    if (printable !== text) replacedCharacters = true;
+    pdf.setFont(font, style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(color);
+    const lineHeight = size * POINTS_TO_MM * 1.4;
+    for (const line of pdf.splitTextToSize(printable, textWidth - indent) as string[]) {
+      if (y + lineHeight > pageHeight - PAGE_MARGIN) {
+        pdf.addPage();
+        y = PAGE_MARGIN;
+      }
+      pdf.text(line, PAGE_MARGIN + indent, y + lineHeight * 0.75);
+      y += lineHeight;
+    }
+    y += spaceAfter;
+  };
+
+  exports.forEach((item, index) => {
+    if (index > 0) {
+      pdf.addPage();
+      y = PAGE_MARGIN;
+    }
+
+    write(item.conversation.title, { size: 18, style: "bold", spaceAfter: 3 });
+    if (item.conversation.synopsis) write(item.conversation.synopsis, { style: "italic", color: 90, spaceAfter: 3 });
+    for (const [label, value] of describeConversation(item)) {
+      write(`${label}: ${value}`, { size: 9, color: 110, spaceAfter: 0.5 });
+    }
+    y += 6;
+
+    for (const msg of item.messages) {
+      write(`${roleLabel(msg)} · ${formatExportDate(msg.timestamp)}`, { size: 11, style: "bold", spaceAfter: 2 });
+      for (const block of parseBlocks(msg.content)) {
+        if (block.kind === "heading") write(block.text, { size: 11.5, style: "bold" });
+        else if (block.kind === "bullet") write(block.text, { indent: 4, spaceAfter: 1 });
+        else if (block.kind === "code") write(block.text || " ", { font: "courier", size: 9, indent: 4, spaceAfter: 0 });
+        else write(block.text);
+      }
+      y += 5;
+    }
+  });
+
+  return { blob: pdf.output("blob"), replacedCharacters };
+};
+
+const blockParagraph = (block: Block) => {
+  switch (block.kind) {
+    case "heading":
+      return new Paragraph({ text: block.text, heading: HeadingLevel.HEADING_3 });
+    case "bullet":
+      return new Paragraph({ text: block.text, indent: { left: 360 }, spacing: { after: 60 } });
+    case "code":
+      return new Paragraph({ children: [new TextRun({ text: block.text, font: "Courier New", size: 18 })] });
+    default:
+      return new Paragraph({ text: block.text, spacing: { after: 120 } });
+  }
+};
+
+// One section per conversation, so each starts on a new page
+export const buildDocx = async (exports: ConversationExport[]): Promise<Blob> => {
+  const document = new Document({
+    creator: "PodcastGPT",
+    title: exports.length === 1 ? exports[0].conversation.title : "PodcastGPT conversations",
+    sections: exports.map(item => ({
+      children: [
+        new Paragraph({ text: item.conversation.title, heading: HeadingLevel.TITLE }),
+        ...(item.conversation.synopsis
+          ? [new Paragraph({ children: [new TextRun({ text: item.conversation.synopsis, italics: true })] })]
+          : []),
+        ...describeConversation(item).map(([label, value]) => new Paragraph({
+          children: [
+            new TextRun({ text: `${label}: `, bold: true, size: 18, color: "666666" }),
+            new TextRun({ text: value, size: 18, color: "666666" })
+          ]
+        })),
+        ...item.messages.flatMap(msg => [
+          new Paragraph({
+            heading: HeadingLevel.HEADING_2,
+            children: [new TextRun(roleLabel(msg)), new TextRun({ text: ` · ${formatExportDate(msg.timestamp)}`, size: 20 })]
+          }),
+          ...parseBlocks(msg.content).map(blockParagraph)
+        ])
+      ]
+    }))
+  });
+
+  return Packer.toBlob(document);
+};
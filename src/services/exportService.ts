@@ -0,0 +1,207 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Message } from "@/services/geminiService";
+import { Conversation, getConversationMessages } from "@/services/conversationService";
+import { GenerationSettings, getProvider, parseGenerationSettings } from "@/services/providers";
+
+export type ExportFormat = "markdown" | "json" | "pdf" | "docx";
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: "markdown", label: "Markdown", extension: "md" },
+  { id: "json", label: "JSON", extension: "json" },
+  { id: "pdf", label: "PDF", extension: "pdf" },
+  { id: "docx", label: "Word (DOCX)", extension: "docx" },
+];
+
+// Identifies our JSON export files so they can be imported again
+export const EXPORT_FILE_KIND = "podcastgpt-conversations";
+export const EXPORT_FILE_VERSION = 1;
+
+// A conversation with everything an export shows: its active messages and metadata
+export interface ConversationExport {
+  conversation: Conversation;
+  showName: string | null;
+  // Models that produced the replies, from the usage records; falls back to the configured model
+  models: string[];
+  messages: Message[];
+}
+
+export interface ExportedMessage {
+  id: string;
+  parent_id: string | null;
+  role: Message["role"];
+  content: string;
+  status: NonNullable<Message["status"]>;
+  timestamp: string;
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string;
+  synopsis: string | null;
+  provider: string;
+  models: string[];
+  show: string | null;
+  tags: string[];
+  generation_settings: GenerationSettings;
+  created_at: string;
+  updated_at: string;
+  messages: ExportedMessage[];
+}
+
+export interface ExportFile {
+  kind: typeof EXPORT_FILE_KIND;
+  version: typeof EXPORT_FILE_VERSION;
+  exported_at: string;
+  conversations: ExportedConversation[];
+}
+
+export const roleLabel = (message: Message) => message.role === "assistant" ? "PodcastGPT" : "You";
+
+export const formatExportDate = (date: string | Date) => format(new Date(date), "MMM d, yyyy HH:mm");
+
+// Metadata lines shown under the title in every document format
+export const describeConversation = ({ conversation, showName, models }: ConversationExport): [string, string][] => {
+  const rows: [string, string][] = [
+    ["Show", showName ?? "None"],
+    ["Provider", getProvider(conversation.provider).label],
+    ["Model", models.length > 0 ? models.join(", ") : "Provider default"],
+    ["Created", formatExportDate(conversation.created_at)],
+    ["Updated", formatExportDate(conversation.updated_at)],
+  ];
+  if (conversation.tags.length > 0) rows.push(["Tags", conversation.tags.join(", ")]);
+  return rows;
+};
+
+const loadConversationExports = async (conversations: Conversation[]): Promise<ConversationExport[]> => {
+  // Only the shows these conversations use, whichever workspace they belong to
+  const showIds = [...new Set(conversations.map(conv => conv.show_id).filter(Boolean))];
+  const [shows, usage] = await Promise.all([
+    showIds.length > 0
+      ? supabase.from("shows").select("id, name").in("id", showIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from("message_usage")
+      .select("conversation_id, model")
+      .in("conversation_id", conversations.map(conv => conv.id))
+      .eq("task", "reply")
+  ]);
+  if (shows.error) throw shows.error;
+  if (usage.error) throw usage.error;
+
+  const showNames = new Map((shows.data ?? []).map(show => [show.id, show.name]));
+  const modelsByConversation = new Map<string, Set<string>>();
+  for (const row of usage.data ?? []) {
+    if (!row.conversation_id || !row.model) continue;
+    const models = modelsByConversation.get(row.conversation_id) ?? new Set<string>();
+    models.add(row.model);
+    modelsByConversation.set(row.conversation_id, models);
+  }
+
+  const exports: ConversationExport[] = [];
+  for (const conversation of conversations) {
+    const configuredModel = parseGenerationSettings(conversation.generation_settings).model;
+    const usedModels = [...(modelsByConversation.get(conversation.id) ?? [])];
+    exports.push({
+      conversation,
+      showName: conversation.show_id ? showNames.get(conversation.show_id) ?? null : null,
+      models: usedModels.length > 0 ? usedModels : configuredModel ? [configuredModel] : [],
+      messages: (await getConversationMessages(conversation.id)).filter(msg => !msg.error)
+    });
+  }
+  return exports;
+};
+
+export const buildExportFile = (exports: ConversationExport[]): ExportFile => ({
+  kind: EXPORT_FILE_KIND,
+  version: EXPORT_FILE_VERSION,
+  exported_at: new Date().toISOString(),
+  conversations: exports.map(({ conversation, showName, models, messages }) => ({
+    id: conversation.id,
+    title: conversation.title,
+    synopsis: conversation.synopsis,
+    provider: conversation.provider,
+    models,
+    show: showName,
+    tags: conversation.tags,
+    generation_settings: parseGenerationSettings(conversation.generation_settings),
+    created_at: conversation.created_at,
+    updated_at: conversation.updated_at,
+    messages: messages.map(msg => ({
+      id: msg.id,
+      parent_id: msg.parentId ?? null,
+      role: msg.role,
+      content: msg.content,
+      status: msg.status ?? "complete",
+      timestamp: msg.timestamp.toISOString()
+    }))
+  }))
+});
+
+export const buildMarkdown = (exports: ConversationExport[]): string =>
+  exports
+    .map(item => {
+      const lines = [`# ${item.conversation.title}`, ""];
+      if (item.conversation.synopsis) lines.push(`> ${item.conversation.synopsis}`, "");
+      lines.push(...describeConversation(item).map(([label, value]) => `- **${label}:** ${value}`), "");
+      for (const msg of item.messages) {
+        lines.push(`## ${roleLabel(msg)} · ${formatExportDate(msg.timestamp)}`, "", msg.content.trim(), "");
+      }
+      return lines.join("\n");
+    })
+    .join("\n---\n\n");
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const exportFilename = (conversations: Conversation[], extension: string) => {
+  const base = conversations.length === 1
+    ? conversations[0].title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "conversation"
+    : `podcastgpt-export-${format(new Date(), "yyyy-MM-dd")}`;
+  return `${base}.${extension}`;
+};
+
+// Downloads the conversations as one file; several conversations follow each other in the document
+export const exportConversations = async (conversations: Conversation[], exportFormat: ExportFormat): Promise<boolean> => {
+  if (conversations.length === 0) return false;
+
+  try {
+    const exports = await loadConversationExports(conversations);
+    const { extension } = EXPORT_FORMATS.find(option => option.id === exportFormat);
+
+    let blob: Blob;
+    if (exportFormat === "markdown") {
+      blob = new Blob([buildMarkdown(exports)], { type: "text/markdown" });
+    } else if (exportFormat === "json") {
+      blob = new Blob([JSON.stringify(buildExportFile(exports), null, 2)], { type: "application/json" });
+    } else {
+      // The document libraries are large, so they are only loaded when needed
+      const { buildPdf, buildDocx } = await import("@/services/exportDocuments");
+      if (exportFormat === "pdf") {
+        const pdf = buildPdf(exports);
+        blob = pdf.blob;
+        if (pdf.replacedCharacters) {
+          toast.warning("Some characters cannot be shown in a PDF and appear as \"?\". Export as DOCX or Markdown to keep them.");
+        }
+      } else {
+        blob = await buildDocx(exports);
+      }
+    }
+
+    downloadBlob(blob, exportFilename(conversations, extension));
+    return true;
+  } catch (error) {
+    console.error("Error exporting conversations:", error);
+    toast.error("Failed to export conversations");
+    return false;
+  }
+};
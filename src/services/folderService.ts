@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export interface ConversationFolder {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  created_at: string;
+}
+
+// Whether `folderId` is `ancestorId` or sits somewhere below it
+export const isWithinFolder = (folders: ConversationFolder[], folderId: string | null, ancestorId: string): boolean => {
+  const parents = new Map(folders.map(folder => [folder.id, folder.parent_id]));
+  let current = folderId;
+  while (current) {
+    if (current === ancestorId) return true;
+    current = parents.get(current) ?? null;
+  }
+  return false;
+};
+
+export const getFolders = async (): Promise<ConversationFolder[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("conversation_folders")
+      .select("id, parent_id, name, created_at")
+      .order("name", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  } catch (error) {
+    console.error("Error fetching folders:", error);
+    toast.error("Failed to load folders");
+    return [];
+  }
+};
+
+export const createFolder = async (name: string, parentId: string | null): Promise<ConversationFolder | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to create a folder");
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("conversation_folders")
+      .insert({ user_id: user.id, name, parent_id: parentId })
+      .select("id, parent_id, name, created_at")
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating folder:", error);
+    toast.error("Failed to create folder");
+    return null;
+  }
+};
+
+export const renameFolder = async (id: string, name: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversation_folders")
+      .update({ name })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error renaming folder:", error);
+    toast.error("Failed to rename folder");
+    return false;
+  }
+};
+
+// Nest a folder under another one, or move it to the top level with null
+export const moveFolder = async (id: string, parentId: string | null): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversation_folders")
+      .update({ parent_id: parentId })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error moving folder:", error);
+    toast.error("Failed to move folder");
+    return false;
+  }
+};
+
+// Subfolders are deleted with it; their conversations move to the top level
+export const deleteFolder = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversation_folders")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting folder:", error);
+    toast.error("Failed to delete folder");
+    return false;
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+vi.mock("@/services/memoryService", () => ({ getRelevantMemoryContext: async () => "" }));
+
+import { generateStreamingResponse, Message } from "./geminiService";
+import { DEFAULT_GENERATION_SETTINGS } from "./providers";
+import { estimateTokens } from "./contextBuilder";
+
+const history: Message[] = [
+  { id: "u1", role: "user", content: "Plan an episode", timestamp: new Date(0) },
+  { id: "a1", role: "assistant", content: "Sure", timestamp: new Date(0) },
+];
+
+describe("generateStreamingResponse with the mock provider", () => {
+  it("streams chunks that add up to the returned reply", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const chunks: string[] = [];
+
+    const result = await generateStreamingResponse("What about guests?", chunk => chunks.push(chunk), {
+      provider: "mock",
+      history,
+      settings: { ...DEFAULT_GENERATION_SETTINGS, candidateCount: 2 },
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(result.text);
+    expect(result.text).toContain('You asked: "What about guests?"');
+    expect(result.text).toContain("This conversation has 2 earlier messages (1 from you).");
+    expect(result.finishReason).toBe("STOP");
+    expect(result.model).toBe("mock");
+    expect(result.candidates).toHaveLength(2);
+    expect(result.candidates[1].text).toContain(result.text);
+    expect(result.usageMetadata?.candidatesTokenCount).toBe(chunks.length * 2);
+    vi.restoreAllMocks();
+  });
+
+  it("cuts the reply off at maxOutputTokens", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const chunks: string[] = [];
+
+    const result = await generateStreamingResponse("Hi", chunk => chunks.push(chunk), {
+      provider: "mock",
+      settings: { ...DEFAULT_GENERATION_SETTINGS, maxOutputTokens: 5 },
+    });
+
+    expect(chunks).toHaveLength(5);
+    expect(result.finishReason).toBe("MAX_TOKENS");
+    expect(result.text).toBe(chunks.join(""));
+    vi.restoreAllMocks();
+  });
+
+  it("returns the partial reply when stopped", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const result = await generateStreamingResponse("Hi", chunk => {
+      chunks.push(chunk);
+      if (chunks.length === 3) controller.abort();
+    }, { provider: "mock", signal: controller.signal });
+
+    expect(result.finishReason).toBe("STOPPED");
+    expect(result.text).toBe(chunks.join(""));
+    expect(chunks).toHaveLength(3);
+    vi.restoreAllMocks();
+  });
+
+  it("estimates the usage of the request a stop cut off", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const result = await generateStreamingResponse("Hi", chunk => {
+      chunks.push(chunk);
+      if (chunks.length === 3) controller.abort();
+    }, { provider: "mock", history, signal: controller.signal });
+
+    expect(result.usageMetadata?.promptTokenCount).toBeGreaterThan(0);
+    expect(result.usageMetadata?.candidatesTokenCount).toBe(estimateTokens(chunks.join("")));
+    expect(result.usageMetadata?.totalTokenCount).toBe(
+      result.usageMetadata.promptTokenCount + result.usageMetadata.candidatesTokenCount
+    );
+    vi.restoreAllMocks();
+  });
+});
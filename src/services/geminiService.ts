@@ -1,326 +1,250 @@
-import { toast } from "sonner";
-import { getDefaultApiKey } from "./conversationService";
-import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  getProvider,
+  GenerationResult,
+  GenerationSettings,
+  getSafetyFeedback,
+  isAbortError,
+  MalformedStreamError,
+  parseSafetyThresholds,
+  ProviderId,
+  SafetyBlockError,
+  SafetyFeedback,
+  UsageMetadata
+} from "./providers";
+import { buildContextWindow, DEFAULT_CONTEXT_TOKEN_BUDGET, estimateTokens } from "./contextBuilder";
+import { getRelevantMemoryContext } from "./memoryService";
+import { Show, buildShowProfile } from "./showService";
+import { DEFAULT_SYSTEM_PROMPT } from "./personaService";
+import { UsageTask, recordUsage } from "./usageService";
 
 export interface Message {
   id: string;
   role: 'user' | 'assistant';  // Explicitly define allowable role values
   content: string;
   timestamp: Date;
+  // "stopped" when the user cancelled generation before the reply finished
+  // "truncated" when the reply ended on the provider's output token limit and can be continued
+  status?: 'complete' | 'stopped' | 'truncated';
+  // The message this one answers or follows; null for the first message of a conversation
+  parentId?: string | null;
+  // Ids of all versions of this message (itself included), oldest first
+  variantIds?: string[];
+  // Set when the provider withheld the reply for safety reasons
+  safetyFeedback?: SafetyFeedback | null;
+  // Why generating this reply failed; only kept in the UI, failed replies are not saved
+  error?: string;
 }
 
-let GEMINI_API_KEY: string = '';
-
-// In a real app, this would be stored in Supabase
-let conversationHistory: Message[] = [];
-
-export const setApiKey = (key: string) => {
-  GEMINI_API_KEY = key;
-  localStorage.setItem('gemini_api_key', key);
-};
-
-export const getApiKey = async (): Promise<string> => {
-  if (!GEMINI_API_KEY) {
-    // Try to get API key from database first
-    const dbKey = await getDefaultApiKey();
-    if (dbKey) {
-      GEMINI_API_KEY = dbKey;
-      return GEMINI_API_KEY;
-    }
-    
-    // Fall back to localStorage if not in database
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) {
-      GEMINI_API_KEY = storedKey;
-    }
-  }
-  return GEMINI_API_KEY;
-};
+export interface GenerationOptions {
+  // Which provider adapter handles the request (defaults to Gemini)
+  provider?: ProviderId | null;
+  // Stops the request; the text streamed so far is returned with finishReason "STOPPED"
+  signal?: AbortSignal;
+  // Messages of the active conversation before the prompt (active variants only),
+  // including any that are still in flight and not yet saved
+  history?: Message[];
+  // Tokens of history to send; older turns are covered by contextSummary instead
+  contextTokenBudget?: number;
+  contextSummary?: string | null;
+  // Profile of the show the conversation belongs to
+  show?: Show | null;
+  // Persona prompt pinned by the conversation; defaults to the generic PodcastGPT prompt
+  systemPrompt?: string | null;
+  // Model and sampling options saved on the conversation
+  settings?: GenerationSettings;
+  // Reply to `prompt` that stopped on MAX_TOKENS; the request then asks for the rest of it,
+  // and onChunk and the result only carry the new text
+  continueFrom?: string;
+}
 
-export const hasApiKey = async (): Promise<boolean> => {
-  const key = await getApiKey();
-  return !!key;
-};
+// Sent after a reply that hit the token limit, with the partial reply as the model's last turn
+const CONTINUE_PROMPT = "Continue your previous reply exactly where it stopped. Do not repeat any of it and do not add an introduction.";
 
-export const addMessageToHistory = (message: Message): void => {
-  conversationHistory.push(message);
-  // In a real app with Supabase, this would be saved to the database
-  localStorage.setItem('conversation_history', JSON.stringify(conversationHistory));
-};
+// Upper bound on automatic continuations, so a runaway reply cannot loop forever
+const MAX_AUTO_CONTINUATIONS = 3;
 
-export const loadConversationHistory = (): Message[] => {
-  if (conversationHistory.length === 0) {
-    const storedHistory = localStorage.getItem('conversation_history');
-    if (storedHistory) {
-      try {
-        const parsed = JSON.parse(storedHistory);
-        conversationHistory = parsed.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-      } catch (error) {
-        console.error("Failed to parse conversation history:", error);
+const sumUsage = (first?: UsageMetadata, second?: UsageMetadata): UsageMetadata | undefined =>
+  first && second
+    ? {
+        promptTokenCount: (first.promptTokenCount ?? 0) + (second.promptTokenCount ?? 0),
+        candidatesTokenCount: (first.candidatesTokenCount ?? 0) + (second.candidatesTokenCount ?? 0),
+        totalTokenCount: (first.totalTokenCount ?? 0) + (second.totalTokenCount ?? 0),
       }
-    }
-  }
-  return conversationHistory;
-};
-
-export const clearConversationHistory = (): void => {
-  conversationHistory = [];
-  localStorage.removeItem('conversation_history');
-};
-
-// Function to get user's past interactions and preferences across all conversations
-export const getUserLongTermMemory = async (): Promise<string> => {
-  try {
-    // Get the current user
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return "";
-    
-    // Fetch recent messages across all conversations (limited to most relevant)
-    const { data: messagesData, error: messagesError } = await supabase
-      .from("messages")
-      .select(`
-        content, 
-        role,
-        conversations!inner(title)
-      `)
-      .eq("role", "user")
-      .order("timestamp", { ascending: false })
-      .limit(50);
-    
-    if (messagesError) {
-      console.error("Error fetching long-term memory:", messagesError);
-      return "";
-    }
-    
-    // Process the data to extract important information
-    if (!messagesData || messagesData.length === 0) return "";
-    
-    // Create a summary of past interests and topics
-    const userQueries = messagesData
-      .filter((msg: any) => msg.role === 'user')
-      .map((msg: any) => msg.content);
-    
-    // Extract key topics using a simple frequency analysis
-    const topics = extractKeyTopics(userQueries);
-    
-    // Format the long-term memory summary
-    return `Based on past conversations, the user has shown interest in these podcast topics: ${topics.join(', ')}. They have asked about ${userQueries.length} different podcast-related questions in the past.`;
-  } catch (error) {
-    console.error("Error processing long-term memory:", error);
-    return "";
-  }
-};
-
-// Simple topic extraction function (in a real app, you'd use more sophisticated NLP)
-const extractKeyTopics = (queries: string[]): string[] => {
-  const allText = queries.join(' ').toLowerCase();
-  
-  // List of common podcast categories to check against
-  const podcastCategories = [
-    "true crime", "comedy", "business", "news", "politics", 
-    "health", "science", "technology", "education", "sports",
-    "music", "arts", "fiction", "history", "interview"
-  ];
-  
-  // Find which categories appear in the user's queries
-  return podcastCategories.filter(category => 
-    allText.includes(category)
-  );
-};
-
+    : first ?? second;
+
+// Joins a continuation onto the result so far; only the first candidate is ever continued
+const appendContinuation = (result: GenerationResult, next: GenerationResult): GenerationResult => ({
+  ...next,
+  text: result.text + next.text,
+  usageMetadata: sumUsage(result.usageMetadata, next.usageMetadata),
+  candidates: [
+    { ...next.candidates[0], index: 0, text: result.text + next.text },
+    ...result.candidates.slice(1),
+  ],
+});
+
+// Streams a reply to `prompt`. Failures are thrown as the typed errors in providers/errors,
+// including SafetyBlockError when the provider withholds the reply.
 export const generateStreamingResponse = async (
   prompt: string,
-  onChunk: (chunk: string) => void
-): Promise<void> => {
-  const apiKey = await getApiKey();
-  if (!apiKey) {
-    toast.error("Please set your Gemini API key first");
-    throw new Error("API key not set");
-  }
-
-  console.log("Using API key:", apiKey.substring(0, 5) + "...");
+  onChunk: (chunk: string) => void,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> => {
+  const provider = getProvider(options.provider);
+  const settings = options.settings ?? DEFAULT_GENERATION_SETTINGS;
+  let streamedText = "";
+  // What the requests so far cost, so a stopped reply still records the tokens it was billed for
+  let finished: GenerationResult | null = null;
+  let inFlight: { promptTokens: number; text: string } | null = null;
   
-  // Load history for context
-  const history = loadConversationHistory();
-  const recentMessages = history.slice(-10); // Use last 10 messages for context
+  // Skip empty turns (e.g. a reply stopped before its first chunk), which providers reject
+  const history = (options.history ?? []).filter(msg => msg.content.trim());
+  const { included: recentMessages, dropped } = buildContextWindow(
+    history,
+    options.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET
+  );
+  const contextSummary = dropped.length > 0 ? options.contextSummary : null;
 
   try {
-    // Get the user's long-term memory summary
-    const longTermMemory = await getUserLongTermMemory();
+    // Get the stored memories that matter for this prompt
+    const longTermMemory = await getRelevantMemoryContext(prompt);
     
     // Prepare system message with long-term memory included
-    const systemMessage = `You are PodcastGPT, an intelligent AI assistant specialized in podcast research and script writing.
-Your expertise includes organizing ideas, structuring podcast episodes, providing researched facts, and helping craft engaging narratives.
-Your responses should be clear, well-structured, and ready to use in a podcast script.
-When researching topics, provide multiple perspectives and cite reliable sources where possible.
-
-${longTermMemory ? `LONG-TERM MEMORY CONTEXT: ${longTermMemory}` : ''}`;
-
-    // Format the historical context for the API request
-    let conversationContext = "";
-    if (recentMessages.length > 0) {
-      conversationContext = recentMessages
-        .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-        .join("\n\n");
-    }
-
-    const fullPrompt = conversationContext 
-      ? `${systemMessage}\n\nConversation history:\n${conversationContext}\n\nUser's new message: ${prompt}`
-      : `${systemMessage}\n\nUser: ${prompt}`;
-
-    console.log("Sending request to Gemini API...");
-    
-    const requestBody = {
-      contents: [{
-        parts: [{
-          text: fullPrompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 2048,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
+    const systemMessage = `${options.systemPrompt ?? DEFAULT_SYSTEM_PROMPT}
+
+${options.show ? `THE SHOW THIS CONVERSATION IS FOR:\n${buildShowProfile(options.show)}` : ''}
+${longTermMemory ? `WHAT YOU KNOW ABOUT THE USER'S PODCAST WORK:\n${longTermMemory}` : ''}
+${contextSummary ? `SUMMARY OF EARLIER CONVERSATION: ${contextSummary}` : ''}`;
+
+    // A continuation replays the prompt and the partial reply, then asks for the rest
+    const sendRequest = (partialReply: string) => {
+      const isContinuation = partialReply.length > 0;
+      const now = new Date();
+      const requestHistory: Message[] = isContinuation
+        ? [
+            ...recentMessages,
+            { id: "continue-prompt", role: "user", content: prompt, timestamp: now },
+            { id: "continue-reply", role: "assistant", content: partialReply, timestamp: now },
+          ]
+        : recentMessages;
+      const requestPrompt = isContinuation ? CONTINUE_PROMPT : prompt;
+      const request = {
+        promptTokens: estimateTokens([systemMessage, ...requestHistory.map(msg => msg.content), requestPrompt].join("\n")),
+        text: "",
+      };
+      inFlight = request;
+      return provider.streamResponse(
         {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+          systemMessage,
+          history: requestHistory,
+          prompt: requestPrompt,
+          settings: isContinuation ? { ...settings, candidateCount: 1 } : settings,
+          safetyThresholds: parseSafetyThresholds(options.show?.safety_settings),
+          signal: options.signal
         },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        (chunk) => {
+          streamedText += chunk;
+          request.text += chunk;
+          onChunk(chunk);
         }
-      ]
+      ).then(response => {
+        inFlight = null;
+        return response;
+      });
     };
-    
-    console.log("Request body:", JSON.stringify(requestBody).substring(0, 200) + "...");
-    
-    // Send the request to the Gemini 2.0 Flash API
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?key=${apiKey}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody)
-    });
 
-    console.log("Response status:", response.status, response.statusText);
+    console.log(`Sending request through the ${provider.label} provider...`);
 
-    if (!response.ok) {
-      let errorMessage = `API error: ${response.status} ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        errorMessage = `API error: ${JSON.stringify(errorData)}`;
-        console.error("API error details:", errorData);
-      } catch (e) {
-        console.error("Could not parse error response:", e);
+    const previousText = options.continueFrom ?? "";
+    let result = await sendRequest(previousText);
+    finished = result;
+
+    for (let continuation = 1; result.finishReason === "MAX_TOKENS" && settings.autoContinue; continuation++) {
+      if (continuation > MAX_AUTO_CONTINUATIONS) {
+        console.warn(`Reply still truncated after ${MAX_AUTO_CONTINUATIONS} automatic continuations`);
+        break;
       }
-      toast.error("Failed to get response from Gemini API");
-      throw new Error(errorMessage);
+      console.log(`Reply hit MAX_TOKENS, continuing automatically (${continuation}/${MAX_AUTO_CONTINUATIONS})...`);
+      result = appendContinuation(result, await sendRequest(previousText + result.text));
+      finished = result;
     }
 
-    if (!response.body) {
-      toast.error("Response body is empty");
-      throw new Error("Response body is empty");
+    console.log("Stream processing completed. Total text length:", result.text.length, "finish reason:", result.finishReason);
+    
+    const safetyFeedback = getSafetyFeedback(result);
+    if (safetyFeedback) {
+      throw new SafetyBlockError(safetyFeedback, result);
+    }
+    if (result.text.length === 0) {
+      throw new MalformedStreamError(`${provider.label} returned an empty response`);
     }
 
-    console.log("Starting to process stream...");
-    
-    // Process the streaming response
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let responseText = '';
-    let fullJsonStr = '';
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      // Decode the chunk and add it to our buffer
-      const chunk = decoder.decode(value, { stream: !done });
-      fullJsonStr += chunk;
-      
-      try {
-        // Attempt to find complete JSON objects in the stream
-        // The Gemini 2.0 Flash API sends each chunk as a separate JSON object
-        // Each chunk is separated by a newline or comma+newline
-        const jsonObjects = fullJsonStr.split(/,?\n/).filter(line => line.trim());
-        
-        for (let i = 0; i < jsonObjects.length; i++) {
-          const jsonStr = jsonObjects[i].trim();
-          if (!jsonStr) continue;
-          
-          try {
-            // Try to parse each potential JSON object
-            const jsonObject = JSON.parse(jsonStr);
-            
-            // Extract text from the parsed object if it exists
-            if (jsonObject.candidates && 
-                jsonObject.candidates[0] && 
-                jsonObject.candidates[0].content && 
-                jsonObject.candidates[0].content.parts && 
-                jsonObject.candidates[0].content.parts[0].text) {
-              
-              const textChunk = jsonObject.candidates[0].content.parts[0].text;
-              responseText += textChunk;
-              onChunk(textChunk);
-              
-              // If this was successful, remove this part from our buffer
-              const processedLength = jsonStr.length + (i < jsonObjects.length - 1 ? 1 : 0); // +1 for the newline
-              fullJsonStr = fullJsonStr.substring(fullJsonStr.indexOf(jsonStr) + processedLength);
-            }
-          } catch (parseError) {
-            // This particular string isn't a complete JSON object yet
-            // We'll keep it in the buffer and try again with the next chunk
-            console.log("Incomplete JSON:", jsonStr.substring(0, 50) + "...");
+    return result;
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) {
+      console.log("Generation stopped by the user. Partial text length:", streamedText.length);
+      // A stopped stream never reports its usage, so the request that was cut off is estimated
+      const stoppedUsage: UsageMetadata | undefined = inFlight
+        ? {
+            promptTokenCount: inFlight.promptTokens,
+            candidatesTokenCount: estimateTokens(inFlight.text),
+            totalTokenCount: inFlight.promptTokens + estimateTokens(inFlight.text),
           }
-        }
-      } catch (error) {
-        console.error("Error processing JSON:", error);
-        // Continue processing - we'll try again with the next chunk
-      }
+        : undefined;
+      return {
+        text: streamedText,
+        finishReason: "STOPPED",
+        usageMetadata: sumUsage(finished?.usageMetadata, stoppedUsage),
+        model: finished?.model ?? settings.model ?? provider.models[0],
+        candidates: [{ index: 0, text: streamedText, finishReason: "STOPPED" }],
+      };
     }
 
-    // After all chunks have been processed, make a final attempt to extract any text from partial responses
-    if (!responseText) {
-      console.warn("No complete JSON responses were extracted. Attempting to extract text directly...");
-      
-      // Look for any text content in our buffer
-      const textMatches = fullJsonStr.match(/"text"\s*:\s*"([^"]+)"/g);
-      if (textMatches) {
-        for (const match of textMatches) {
-          const text = match.replace(/"text"\s*:\s*"/, '').replace(/"$/, '');
-          responseText += text;
-          onChunk(text);
-        }
-      }
-    }
+    console.error(`Error with ${provider.label} provider:`, error);
+    throw error;
+  }
+};
 
-    console.log("Stream processing completed. Total text length:", responseText.length);
-    
-    if (responseText.length === 0) {
-      console.warn("No text was extracted from the response");
-      toast.error("Received empty response from API");
-      
-      // Provide a fallback response so the user isn't left with nothing
-      const fallbackResponse = "I'm sorry, but I couldn't generate a proper response. Please try again or check your API key.";
-      onChunk(fallbackResponse);
-    }
+// A background request made for a conversation after one of its replies
+export interface BackgroundTask {
+  task: Exclude<UsageTask, "reply">;
+  conversationId: string;
+  showId?: string | null;
+}
+
+// One-off completion without chat history or long-term memory, used for background tasks.
+// Its usage is recorded under the task, and the proxy rate limits it apart from replies.
+export const generateText = async (
+  systemMessage: string,
+  prompt: string,
+  background: BackgroundTask,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const provider = getProvider(options.provider);
+  try {
+    const result = await provider.streamResponse(
+      {
+        systemMessage,
+        history: [],
+        prompt,
+        settings: options.settings ?? DEFAULT_GENERATION_SETTINGS,
+        signal: options.signal,
+        background: true
+      },
+      () => {}
+    );
+    recordUsage({
+      conversationId: background.conversationId,
+      messageId: null,
+      showId: background.showId ?? null,
+      provider: provider.id,
+      result,
+      task: background.task
+    });
+    return result.text.trim();
   } catch (error) {
-    console.error("Error with Gemini API:", error);
-    toast.error("Failed to get response: " + (error instanceof Error ? error.message : String(error)));
-    throw error;
+    console.error(`Background request to the ${provider.label} provider failed:`, error);
+    return "";
   }
 };
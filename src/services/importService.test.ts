@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { parseImportFile } from "./importService";
+import { EXPORT_FILE_KIND, EXPORT_FILE_VERSION } from "./exportService";
+
+const chatGptNode = (role: string, text: string, parent: string | null, children: string[], createTime = 1700000000) => ({
+  parent,
+  children,
+  message: { author: { role }, create_time: createTime, content: { content_type: "text", parts: [text] } },
+});
+
+const chatGptArchive = [
+  {
+    conversation_id: "chatgpt-1",
+    title: "Episode ideas",
+    create_time: 1700000000,
+    update_time: 1700000600,
+    current_node: "a2b",
+    mapping: {
+      root: { parent: null, children: ["sys"], message: null },
+      sys: chatGptNode("system", "You are ChatGPT", "root", ["u1"]),
+      u1: chatGptNode("user", "Give me episode ideas", "sys", ["a1", "a2"]),
+      a1: chatGptNode("assistant", "An older answer", "u1", []),
+      a2: chatGptNode("assistant", "Here are three ideas", "u1", ["a2b"], 1700000060),
+      a2b: chatGptNode("assistant", "And a fourth", "a2", []),
+    },
+  },
+];
+
+const exportFile = (conversations: unknown[]) => JSON.stringify({
+  kind: EXPORT_FILE_KIND,
+  version: EXPORT_FILE_VERSION,
+  exported_at: "2026-01-01T00:00:00Z",
+  conversations,
+});
+
+const exportedConversation = {
+  id: "conv-1",
+  title: "Interview prep",
+  synopsis: null,
+  provider: "mock",
+  models: ["mock"],
+  show: "The Show",
+  tags: ["guests", 42],
+  generation_settings: { temperature: 0.2 },
+  created_at: "2026-01-01T10:00:00Z",
+  updated_at: "2026-01-02T10:00:00Z",
+  messages: [
+    { id: "m1", parent_id: null, role: "user", content: "Who should we book?", status: "complete", timestamp: "2026-01-01T10:00:00Z" },
+    { id: "m2", parent_id: "m1", role: "assistant", content: "Someone", status: "stopped", timestamp: "2026-01-01T10:01:00Z" },
+  ],
+};
+
+describe("parseImportFile", () => {
+  it("rejects files that are not JSON or not a known archive", () => {
+    expect(() => parseImportFile("not json")).toThrow("The file is not valid JSON");
+    expect(() => parseImportFile("{\"hello\":1}")).toThrow("Expected a ChatGPT conversations.json or a PodcastGPT JSON export");
+  });
+
+  it("reads the shown branch of a ChatGPT conversation", () => {
+    const { source, conversations } = parseImportFile(JSON.stringify(chatGptArchive));
+    const [conversation] = conversations;
+
+    expect(source).toBe("chatgpt");
+    expect(conversation).toMatchObject({ sourceId: "chatgpt-1", title: "Episode ideas" });
+    expect(conversation.problem).toBeUndefined();
+    expect(conversation.createdAt).toEqual(new Date(1700000000 * 1000));
+    expect(conversation.updatedAt).toEqual(new Date(1700000600 * 1000));
+
+    // The system prompt is dropped, the older answer is skipped and consecutive replies are merged
+    expect(conversation.messages.map(msg => [msg.role, msg.content])).toEqual([
+      ["user", "Give me episode ideas"],
+      ["assistant", "Here are three ideas\n\nAnd a fourth"],
+    ]);
+    expect(conversation.messages[1].parentId).toBe(conversation.messages[0].id);
+    expect(conversation.messages[0].parentId).toBeNull();
+  });
+
+  it("reports a ChatGPT conversation without messages as a problem", () => {
+    const { conversations } = parseImportFile(JSON.stringify([{ id: "empty", mapping: {} }]));
+
+    expect(conversations[0].problem).toBe("No user or assistant messages found");
+  });
+
+  it("reads a PodcastGPT export with its metadata", () => {
+    const { source, conversations } = parseImportFile(exportFile([exportedConversation]));
+    const [conversation] = conversations;
+
+    expect(source).toBe("podcastgpt");
+    expect(conversation).toMatchObject({
+      sourceId: "conv-1",
+      title: "Interview prep",
+      provider: "mock",
+      showName: "The Show",
+      tags: ["guests"],
+    });
+    expect(conversation.generationSettings?.temperature).toBe(0.2);
+    expect(conversation.messages.map(msg => [msg.role, msg.content, msg.status])).toEqual([
+      ["user", "Who should we book?", "complete"],
+      ["assistant", "Someone", "stopped"],
+    ]);
+    expect(conversation.messages[1].timestamp).toEqual(new Date("2026-01-01T10:01:00Z"));
+  });
+
+  it("reports exported conversations missing their date or messages", () => {
+    const { conversations } = parseImportFile(exportFile([
+      { ...exportedConversation, created_at: "not a date" },
+      { ...exportedConversation, messages: [] },
+    ]));
+
+    expect(conversations[0].problem).toBe("Missing id, date or messages");
+    expect(conversations[1].problem).toBe("No messages found");
+  });
+
+  it("defaults unknown statuses and falls back to the conversation date for invalid timestamps", () => {
+    const { conversations: [conversation] } = parseImportFile(exportFile([{
+      ...exportedConversation,
+      updated_at: "yesterday-ish",
+      messages: [
+        { ...exportedConversation.messages[0], status: "streaming", timestamp: "not a date" },
+        { ...exportedConversation.messages[1], status: undefined, timestamp: 1767261660 },
+      ],
+    }]));
+    const createdAt = new Date("2026-01-01T10:00:00Z");
+
+    expect(conversation.problem).toBeUndefined();
+    expect(conversation.updatedAt).toEqual(createdAt);
+    expect(conversation.messages.map(msg => [msg.status, msg.timestamp])).toEqual([
+      ["complete", createdAt],
+      ["complete", createdAt],
+    ]);
+  });
+});
@@ -0,0 +1,285 @@
+import { supabase } from "@/integrations/supabase/client";
+import { v4 as uuidv4 } from "uuid";
+import { Message } from "@/services/geminiService";
+import { createConversation, deleteConversation, saveMessages } from "@/services/conversationService";
+import { EXPORT_FILE_KIND, ExportFile, ExportedConversation } from "@/services/exportService";
+import { getShows } from "@/services/showService";
+import { GenerationSettings, getProvider, parseGenerationSettings } from "@/services/providers";
+
+export type ImportSource = "chatgpt" | "podcastgpt";
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: "ChatGPT",
+  podcastgpt: "PodcastGPT export",
+};
+
+// One conversation read from an archive, ready to be written
+export interface ImportCandidate {
+  sourceId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: Message[];
+  provider?: string;
+  generationSettings?: GenerationSettings;
+  showName?: string | null;
+  tags?: string[];
+  // Why the conversation could not be read; such candidates are reported as failed
+  problem?: string;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  conversations: ImportCandidate[];
+}
+
+export type ImportStatus = "pending" | "importing" | "imported" | "duplicate" | "failed";
+
+export interface ImportSummary {
+  imported: number;
+  duplicates: number;
+  failed: number;
+}
+
+// ChatGPT's conversations.json: each conversation is a tree of nodes keyed by id, and
+// current_node is the leaf of the branch that was shown last
+interface ChatGptNode {
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  current_node?: string;
+  mapping?: Record<string, ChatGptNode>;
+}
+
+const fromUnixSeconds = (value: unknown, fallback: Date) =>
+  typeof value === "number" && Number.isFinite(value) ? new Date(value * 1000) : fallback;
+
+const fromDateString = (value: unknown, fallback: Date) => {
+  const date = typeof value === "string" ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : fallback;
+};
+
+const MESSAGE_STATUSES: NonNullable<Message["status"]>[] = ["complete", "stopped", "truncated"];
+
+const parseMessageStatus = (value: unknown): NonNullable<Message["status"]> =>
+  MESSAGE_STATUSES.find(status => status === value) ?? "complete";
+
+type Turn = Pick<Message, "role" | "content" | "timestamp" | "status">;
+
+// Fresh ids chained in order, so the imported history is one active path
+const chainMessages = (turns: Turn[]): Message[] => {
+  let parentId: string | null = null;
+  return turns.map(turn => {
+    const message: Message = { id: uuidv4(), parentId, status: "complete", ...turn };
+    parentId = message.id;
+    return message;
+  });
+};
+
+const chatGptText = (node: ChatGptNode): string => {
+  const content = node.message?.content;
+  if (!content || !["text", "multimodal_text"].includes(content.content_type ?? "")) return "";
+  return (content.parts ?? [])
+    .filter((part): part is string => typeof part === "string")
+    .join("\n")
+    .trim();
+};
+
+const parseChatGptConversation = (raw: ChatGptConversation, index: number): ImportCandidate => {
+  const createdAt = fromUnixSeconds(raw.create_time, new Date());
+  const candidate: ImportCandidate = {
+    sourceId: raw.conversation_id ?? raw.id ?? `${raw.title ?? ""}@${raw.create_time ?? index}`,
+    title: raw.title?.trim() || `ChatGPT conversation ${index + 1}`,
+    createdAt,
+    updatedAt: fromUnixSeconds(raw.update_time, createdAt),
+    messages: [],
+  };
+
+  const mapping = raw.mapping;
+  if (!mapping || typeof mapping !== "object") return { ...candidate, problem: "No messages found" };
+
+  // Without current_node, follow the newest child from the root
+  let leafId = raw.current_node;
+  if (!leafId || !mapping[leafId]) {
+    leafId = Object.keys(mapping).find(id => !mapping[id].parent);
+    while (leafId && mapping[leafId]?.children?.length) {
+      const children = mapping[leafId].children;
+      leafId = children[children.length - 1];
+    }
+  }
+
+  const path: ChatGptNode[] = [];
+  const visited = new Set<string>();
+  for (let id = leafId; id && mapping[id] && !visited.has(id); id = mapping[id].parent ?? undefined) {
+    visited.add(id);
+    path.unshift(mapping[id]);
+  }
+
+  // Tool calls and system prompts are dropped; consecutive parts of one reply are merged
+  const turns: Turn[] = [];
+  for (const node of path) {
+    const role = node.message?.author?.role;
+    const text = chatGptText(node);
+    if ((role !== "user" && role !== "assistant") || !text || node.message?.metadata?.is_visually_hidden_from_conversation) {
+      continue;
+    }
+
+    const previous = turns[turns.length - 1];
+    if (previous?.role === role) {
+      previous.content += `\n\n${text}`;
+    } else {
+      turns.push({ role, content: text, timestamp: fromUnixSeconds(node.message?.create_time, createdAt) });
+    }
+  }
+
+  return turns.length > 0
+    ? { ...candidate, messages: chainMessages(turns) }
+    : { ...candidate, problem: "No user or assistant messages found" };
+};
+
+const parseExportedConversation = (raw: ExportedConversation, index: number): ImportCandidate => {
+  const createdAt = new Date(raw.created_at);
+  const candidate: ImportCandidate = {
+    sourceId: raw.id,
+    title: raw.title || `Imported conversation ${index + 1}`,
+    createdAt,
+    updatedAt: fromDateString(raw.updated_at, createdAt),
+    messages: [],
+    provider: getProvider(raw.provider).id,
+    generationSettings: parseGenerationSettings(raw.generation_settings),
+    showName: raw.show,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === "string") : [],
+  };
+
+  if (!raw.id || Number.isNaN(createdAt.getTime()) || !Array.isArray(raw.messages)) {
+    return { ...candidate, problem: "Missing id, date or messages" };
+  }
+
+  const messages = chainMessages(raw.messages
+    .filter(msg => (msg.role === "user" || msg.role === "assistant") && typeof msg.content === "string")
+    .map(msg => ({
+      role: msg.role,
+      content: msg.content,
+      status: parseMessageStatus(msg.status),
+      timestamp: fromDateString(msg.timestamp, createdAt)
+    })));
+
+  return messages.length > 0 ? { ...candidate, messages } : { ...candidate, problem: "No messages found" };
+};
+
+// Reads a ChatGPT conversations.json or one of our JSON exports; throws when the file is neither
+export const parseImportFile = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const exportFile = data as Partial<ExportFile> | null;
+  if (exportFile && exportFile.kind === EXPORT_FILE_KIND && Array.isArray(exportFile.conversations)) {
+    return { source: "podcastgpt", conversations: exportFile.conversations.map(parseExportedConversation) };
+  }
+
+  if (Array.isArray(data) && data.every(item => item && typeof item === "object" && "mapping" in item)) {
+    return { source: "chatgpt", conversations: (data as ChatGptConversation[]).map(parseChatGptConversation) };
+  }
+
+  throw new Error("Expected a ChatGPT conversations.json or a PodcastGPT JSON export");
+};
+
+// Conversation ids and import ids already in the target space, for deduplication. A workspace
+// includes what other members imported; the personal space only the user's own conversations.
+const getExistingSourceIds = async (source: ImportSource, workspaceId: string | null): Promise<Set<string>> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in to import conversations");
+
+  let query = supabase.from("conversations").select("id, import_source, import_source_id");
+  query = workspaceId
+    ? query.eq("workspace_id", workspaceId)
+    : query.eq("user_id", user.id).is("workspace_id", null);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  const ids = new Set<string>();
+  for (const row of data ?? []) {
+    if (row.import_source === source && row.import_source_id) ids.add(row.import_source_id);
+    // Re-importing our own export into the space it came from finds the original
+    if (source === "podcastgpt") ids.add(row.id);
+  }
+  return ids;
+};
+
+// Writes the conversations into a workspace, or the personal space, one at a time, reporting each
+// one's status as it goes. Conversations that were imported before, or still exist in that space, are skipped.
+export const importConversations = async (
+  parsed: ParsedImport,
+  workspaceId: string | null,
+  onProgress: (index: number, status: ImportStatus, error?: string) => void
+): Promise<ImportSummary> => {
+  const summary: ImportSummary = { imported: 0, duplicates: 0, failed: 0 };
+  const existing = await getExistingSourceIds(parsed.source, workspaceId);
+  const showIds = parsed.source === "podcastgpt"
+    ? new Map((await getShows(workspaceId)).map(show => [show.name, show.id]))
+    : new Map<string, string>();
+
+  for (const [index, candidate] of parsed.conversations.entries()) {
+    if (candidate.problem) {
+      summary.failed++;
+      onProgress(index, "failed", candidate.problem);
+      continue;
+    }
+    if (existing.has(candidate.sourceId)) {
+      summary.duplicates++;
+      onProgress(index, "duplicate");
+      continue;
+    }
+
+    onProgress(index, "importing");
+    const conversationId = await createConversation(candidate.title, {
+      provider: candidate.provider,
+      showId: candidate.showName ? showIds.get(candidate.showName) ?? null : null,
+      generationSettings: candidate.generationSettings,
+      workspaceId,
+      tags: candidate.tags,
+      createdAt: candidate.createdAt,
+      updatedAt: candidate.updatedAt,
+      importSource: { source: parsed.source, sourceId: candidate.sourceId },
+    });
+    if (!conversationId) {
+      summary.failed++;
+      onProgress(index, "failed", "Could not create the conversation");
+      continue;
+    }
+
+    if (!(await saveMessages(conversationId, candidate.messages))) {
+      // Don't leave a half-imported conversation behind; the next import will retry it
+      await deleteConversation(conversationId);
+      summary.failed++;
+      onProgress(index, "failed", "Could not save the messages");
+      continue;
+    }
+
+    existing.add(candidate.sourceId);
+    summary.imported++;
+    onProgress(index, "imported");
+  }
+
+  console.log("Import finished:", summary);
+  return summary;
+};
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { fetchMemoriesMock, toastError } = vi.hoisted(() => ({
+  fetchMemoriesMock: vi.fn(),
+  toastError: vi.fn(),
+}));
+
+// user_memories reads end in .order().order(); updates in .eq()
+vi.mock("@/integrations/supabase/client", () => {
+  const query = {
+    select: () => query,
+    update: () => query,
+    eq: () => query,
+    order: (column: string) => column === "updated_at" ? fetchMemoriesMock() : query,
+    then: (resolve: (value: { error: null }) => void) => resolve({ error: null }),
+  };
+  return {
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: "user-1" } } }) },
+      from: () => query,
+    },
+  };
+});
+vi.mock("sonner", () => ({ toast: { error: toastError } }));
+
+import { getRelevantMemoryContext, updateMemory } from "./memoryService";
+
+const memory = (id: string, content: string, pinned = false) => ({
+  id,
+  category: "topic",
+  content,
+  pinned,
+  status: "active",
+  source_conversation_id: null,
+  created_at: "",
+  updated_at: "",
+});
+
+describe("getRelevantMemoryContext", () => {
+  beforeEach(async () => {
+    fetchMemoriesMock.mockReset();
+    toastError.mockReset();
+    // Start every test with an empty cache
+    await updateMemory("any", {});
+  });
+
+  it("includes pinned memories and the ones that share words with the prompt", async () => {
+    fetchMemoriesMock.mockResolvedValue({
+      data: [memory("1", "The Deep Dive Show", true), memory("2", "Loves astronomy history"), memory("3", "Gardening tips")],
+      error: null,
+    });
+
+    expect(await getRelevantMemoryContext("An episode about astronomy")).toBe(
+      "- Topic of interest: The Deep Dive Show\n- Topic of interest: Loves astronomy history"
+    );
+  });
+
+  it("reuses the memories between turns until they change", async () => {
+    fetchMemoriesMock.mockResolvedValue({ data: [memory("1", "Pinned fact", true)], error: null });
+
+    await getRelevantMemoryContext("first turn");
+    await getRelevantMemoryContext("second turn");
+    expect(fetchMemoriesMock).toHaveBeenCalledTimes(1);
+
+    await updateMemory("1", { pinned: false });
+    await getRelevantMemoryContext("third turn");
+    expect(fetchMemoriesMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves memories out without a toast when they cannot be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMemoriesMock.mockResolvedValue({ data: null, error: new Error("offline") });
+
+    expect(await getRelevantMemoryContext("anything")).toBe("");
+    expect(toastError).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
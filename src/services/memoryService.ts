@@ -0,0 +1,256 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Message, generateText } from "@/services/geminiService";
+import { ProviderId } from "@/services/providers";
+
+export type MemoryCategory = "show_name" | "format" | "audience" | "hosts" | "tone" | "topic" | "other";
+
+export const MEMORY_CATEGORIES: { value: MemoryCategory; label: string }[] = [
+  { value: "show_name", label: "Show name" },
+  { value: "format", label: "Format" },
+  { value: "audience", label: "Audience" },
+  { value: "hosts", label: "Hosts" },
+  { value: "tone", label: "Tone preferences" },
+  { value: "topic", label: "Topic of interest" },
+  { value: "other", label: "Other" },
+];
+
+export interface UserMemory {
+  id: string;
+  category: MemoryCategory;
+  content: string;
+  pinned: boolean;
+  status: "proposed" | "active";
+  source_conversation_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Most memories injected into one system prompt, pinned ones included
+const MAX_INJECTED_MEMORIES = 8;
+
+// How long the memories read for prompts are reused; changes made in this tab clear them right away
+const MEMORY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+let memoryCache: { userId: string; memories: UserMemory[]; loadedAt: number } | null = null;
+
+const clearMemoryCache = () => {
+  memoryCache = null;
+};
+
+const isMemoryCategory = (value: unknown): value is MemoryCategory =>
+  MEMORY_CATEGORIES.some(category => category.value === value);
+
+const fetchMemories = async (userId: string): Promise<UserMemory[]> => {
+  const { data, error } = await supabase
+    .from("user_memories")
+    .select("*")
+    .eq("user_id", userId)
+    .order("pinned", { ascending: false })
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as UserMemory[];
+};
+
+// Get all memories of the current user, pinned first
+export const getUserMemories = async (): Promise<UserMemory[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    return await fetchMemories(user.id);
+  } catch (error) {
+    console.error("Error fetching memories:", error);
+    toast.error("Failed to load memories");
+    return [];
+  }
+};
+
+// The memories for generating a reply, cached between turns. A failure only leaves the memories
+// out of the prompt, so it is logged instead of interrupting the user with a toast.
+const getMemoriesForPrompt = async (): Promise<UserMemory[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    if (memoryCache?.userId === user.id && Date.now() - memoryCache.loadedAt < MEMORY_CACHE_TTL_MS) {
+      return memoryCache.memories;
+    }
+    const memories = await fetchMemories(user.id);
+    memoryCache = { userId: user.id, memories, loadedAt: Date.now() };
+    return memories;
+  } catch (error) {
+    console.error("Error fetching memories for the prompt:", error);
+    return [];
+  }
+};
+
+// Add a memory written by the user, active right away
+export const createMemory = async (category: MemoryCategory, content: string): Promise<UserMemory | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to save memories");
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("user_memories")
+      .insert({ user_id: user.id, category, content, status: "active" })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    clearMemoryCache();
+    return data as UserMemory;
+  } catch (error) {
+    console.error("Error creating memory:", error);
+    toast.error("Failed to save memory");
+    return null;
+  }
+};
+
+// Edit, pin or accept a memory
+export const updateMemory = async (
+  id: string,
+  changes: Partial<Pick<UserMemory, "category" | "content" | "pinned" | "status">>
+): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("user_memories")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw error;
+    clearMemoryCache();
+    return true;
+  } catch (error) {
+    console.error("Error updating memory:", error);
+    toast.error("Failed to update memory");
+    return false;
+  }
+};
+
+export const deleteMemory = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("user_memories")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    clearMemoryCache();
+    return true;
+  } catch (error) {
+    console.error("Error deleting memory:", error);
+    toast.error("Failed to delete memory");
+    return false;
+  }
+};
+
+const EXTRACTION_SYSTEM_MESSAGE = `You extract durable facts about a podcaster's work from one exchange with their assistant.
+Only keep facts that will still matter in future conversations: show name, format, audience, hosts, tone preferences, recurring topics of interest.
+Never record facts about the research subject itself, only about the user's show and preferences.
+Answer with a JSON array of objects like {"category": "...", "content": "..."} where category is one of
+show_name, format, audience, hosts, tone, topic, other. Answer with [] when there is nothing new.`;
+
+// Ask the model which facts from the latest exchange are worth remembering and store them as proposals.
+// Returns how many new proposals were added.
+export const proposeMemories = async (
+  conversationId: string,
+  exchange: Message[],
+  provider?: ProviderId | null,
+  showId?: string | null
+): Promise<number> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    const existing = await getMemoriesForPrompt();
+    const known = existing.map(memory => `- ${memory.content}`).join("\n");
+    const transcript = exchange
+      .map(msg => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
+      .join("\n\n");
+
+    const reply = await generateText(
+      EXTRACTION_SYSTEM_MESSAGE,
+      `ALREADY KNOWN (do not repeat):\n${known || "(nothing yet)"}\n\nEXCHANGE:\n${transcript}`,
+      { task: "memories", conversationId, showId },
+      { provider }
+    );
+
+    const start = reply.indexOf("[");
+    const end = reply.lastIndexOf("]");
+    if (start === -1 || end <= start) return 0;
+
+    const knownContents = new Set(existing.map(memory => memory.content.trim().toLowerCase()));
+    const proposals = (JSON.parse(reply.slice(start, end + 1)) as unknown[])
+      .filter((item): item is { category: MemoryCategory; content: string } =>
+        typeof item === "object" && item !== null
+        && isMemoryCategory((item as { category?: unknown }).category)
+        && typeof (item as { content?: unknown }).content === "string")
+      .map(item => ({ category: item.category, content: item.content.trim() }))
+      .filter(item => item.content && !knownContents.has(item.content.toLowerCase()));
+
+    if (proposals.length === 0) return 0;
+
+    const { error } = await supabase
+      .from("user_memories")
+      .insert(proposals.map(item => ({
+        ...item,
+        user_id: user.id,
+        status: "proposed",
+        source_conversation_id: conversationId
+      })));
+
+    if (error) throw error;
+    clearMemoryCache();
+    console.log("Proposed memories:", proposals.length);
+    return proposals.length;
+  } catch (error) {
+    console.error("Error proposing memories:", error);
+    return 0;
+  }
+};
+
+const tokenize = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3));
+
+// Pinned memories always go in; the rest compete on word overlap with the prompt
+export const selectRelevantMemories = (memories: UserMemory[], prompt: string): UserMemory[] => {
+  const active = memories.filter(memory => memory.status === "active");
+  const pinned = active.filter(memory => memory.pinned);
+  const promptWords = tokenize(prompt);
+
+  const scored = active
+    .filter(memory => !memory.pinned)
+    .map(memory => ({
+      memory,
+      score: [...tokenize(memory.content)].filter(word => promptWords.has(word)).length
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ memory }) => memory);
+
+  return [...pinned, ...scored].slice(0, MAX_INJECTED_MEMORIES);
+};
+
+// The memory block for the system prompt, or an empty string when nothing is relevant
+export const getRelevantMemoryContext = async (prompt: string): Promise<string> => {
+  const relevant = selectRelevantMemories(await getMemoriesForPrompt(), prompt);
+  if (relevant.length === 0) return "";
+
+  const labels = new Map(MEMORY_CATEGORIES.map(category => [category.value, category.label]));
+  return relevant
+    .map(memory => `- ${labels.get(memory.category)}: ${memory.content}`)
+    .join("\n");
+};
+
+// Topics the user has confirmed an interest in, for the suggestion chips on an empty chat
+export const getUserInterests = async (): Promise<string[]> => {
+  const memories = await getUserMemories();
+  return memories
+    .filter(memory => memory.status === "active" && memory.category === "topic")
+    .map(memory => memory.content);
+};
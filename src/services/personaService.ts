@@ -0,0 +1,208 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+// Used when a conversation has no persona preset
+export const DEFAULT_SYSTEM_PROMPT = `You are PodcastGPT, an intelligent AI assistant specialized in podcast research and script writing.
+Your expertise includes organizing ideas, structuring podcast episodes, providing researched facts, and helping craft engaging narratives.
+Your responses should be clear, well-structured, and ready to use in a podcast script.
+When researching topics, provide multiple perspectives and cite reliable sources where possible.`;
+
+// Starter presets copied into a user's personal library the first time it is loaded
+const STARTER_PRESETS = [
+  {
+    name: "Investigative researcher",
+    description: "Digs for primary sources, timelines and contradictions",
+    systemPrompt: `You are PodcastGPT acting as an investigative researcher for a podcast team.
+Build timelines, separate established facts from claims, and point out contradictions between sources.
+Name the primary sources a producer should verify and flag anything that is disputed or unconfirmed.
+Keep a neutral tone and never speculate without saying so.`,
+  },
+  {
+    name: "Comedy writer",
+    description: "Punches up scripts with jokes, callbacks and bits",
+    systemPrompt: `You are PodcastGPT acting as a comedy writer for a podcast.
+Suggest jokes, running gags, callbacks and segment bits that fit the hosts' voices.
+Offer several alternatives for each beat, from safe to edgy, and mark which ones need a fact check.
+Keep the script easy to read aloud.`,
+  },
+  {
+    name: "Interview prep coach",
+    description: "Prepares guest research and question lists",
+    systemPrompt: `You are PodcastGPT acting as an interview prep coach.
+Research the guest's background, recent work and past interviews, then draft open questions in a logical arc.
+Include follow-ups, topics to avoid repeating from earlier interviews, and a short pre-interview briefing.`,
+  },
+];
+
+export interface PersonaVersion {
+  id: string;
+  preset_id: string;
+  version: number;
+  system_prompt: string;
+  created_at: string;
+}
+
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  // null for the creator's personal presets
+  workspace_id: string | null;
+  // Deleted presets are hidden from the library but still replay for conversations that pinned them
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  versions: PersonaVersion[]; // Oldest first
+}
+
+// The system prompt a preset had at a given version
+export const getPersonaPrompt = (preset: PersonaPreset, version: number): string | null =>
+  preset.versions.find(item => item.version === version)?.system_prompt ?? null;
+
+const insertPreset = async (
+  userId: string,
+  workspaceId: string | null,
+  name: string,
+  description: string | null,
+  systemPrompt: string
+): Promise<PersonaPreset> => {
+  const { data: preset, error } = await supabase
+    .from("persona_presets")
+    .insert({ user_id: userId, workspace_id: workspaceId, name, description, current_version: 1 })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  const { data: version, error: versionError } = await supabase
+    .from("persona_preset_versions")
+    .insert({ preset_id: preset.id, version: 1, system_prompt: systemPrompt })
+    .select("*")
+    .single();
+
+  if (versionError) throw versionError;
+  return { ...preset, versions: [version] };
+};
+
+// Get the presets of a workspace, or the user's personal ones, with their full version history.
+// Deleted presets are included so pinned conversations can find their prompt; check deleted_at before listing.
+// The starters are seeded on first use of the personal library; workspaces start empty.
+export const getPersonaPresets = async (workspaceId: string | null = null): Promise<PersonaPreset[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const loadPresets = () => {
+      let query = supabase.from("persona_presets").select("*, versions:persona_preset_versions(*)");
+      query = workspaceId
+        ? query.eq("workspace_id", workspaceId)
+        : query.eq("user_id", user.id).is("workspace_id", null);
+      return query.order("name", { ascending: true });
+    };
+
+    let { data, error } = await loadPresets();
+    if (error) throw error;
+
+    if (!workspaceId && data.length === 0) {
+      // The RPC only seeds a library that never had a preset, so a second tab cannot seed it again
+      const { error: seedError } = await supabase.rpc("seed_persona_presets", {
+        p_presets: STARTER_PRESETS.map(starter => ({
+          name: starter.name,
+          description: starter.description,
+          system_prompt: starter.systemPrompt,
+        })),
+      });
+      if (seedError) throw seedError;
+
+      ({ data, error } = await loadPresets());
+      if (error) throw error;
+    }
+
+    return data.map(preset => ({
+      ...preset,
+      versions: [...preset.versions].sort((a, b) => a.version - b.version)
+    }));
+  } catch (error) {
+    console.error("Error fetching persona presets:", error);
+    toast.error("Failed to load persona presets");
+    return [];
+  }
+};
+
+export const createPersonaPreset = async (
+  name: string,
+  description: string | null,
+  systemPrompt: string,
+  workspaceId: string | null = null
+): Promise<PersonaPreset | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to create a persona");
+      return null;
+    }
+    return await insertPreset(user.id, workspaceId, name, description, systemPrompt);
+  } catch (error) {
+    console.error("Error creating persona preset:", error);
+    toast.error("Failed to create persona");
+    return null;
+  }
+};
+
+// Rename the preset and, when the prompt changed, record it as the next version
+export const savePersonaPreset = async (
+  preset: PersonaPreset,
+  name: string,
+  description: string | null,
+  systemPrompt: string
+): Promise<PersonaPreset | null> => {
+  try {
+    const promptChanged = getPersonaPrompt(preset, preset.current_version) !== systemPrompt;
+    const nextVersion = promptChanged ? preset.current_version + 1 : preset.current_version;
+    let versions = preset.versions;
+
+    if (promptChanged) {
+      const { data: version, error: versionError } = await supabase
+        .from("persona_preset_versions")
+        .insert({ preset_id: preset.id, version: nextVersion, system_prompt: systemPrompt })
+        .select("*")
+        .single();
+
+      if (versionError) throw versionError;
+      versions = [...versions, version];
+    }
+
+    const { data, error } = await supabase
+      .from("persona_presets")
+      .update({ name, description, current_version: nextVersion, updated_at: new Date().toISOString() })
+      .eq("id", preset.id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return { ...data, versions };
+  } catch (error) {
+    console.error("Error saving persona preset:", error);
+    toast.error("Failed to save persona");
+    return null;
+  }
+};
+
+// Removes the preset from the library. Its versions are kept, so conversations that pinned
+// one keep replaying the same prompt.
+export const deletePersonaPreset = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("persona_presets")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting persona preset:", error);
+    toast.error("Failed to delete persona");
+    return false;
+  }
+};
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  InvalidApiKeyError,
+  InvalidRequestError,
+  QuotaExceededError,
+  ServerError,
+  errorFromResponse,
+  parseRetryAfter
+} from "./errors";
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+describe("errorFromResponse", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("maps 429 to a retryable QuotaExceededError with the Retry-After delay", async () => {
+    const error = await errorFromResponse(jsonResponse(429, { error: { message: "Slow down" } }, { "Retry-After": "5" }), "Gemini");
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.retryable).toBe(true);
+    expect((error as QuotaExceededError).retryAfterMs).toBe(5000);
+    expect(error.message).toBe("Gemini error: Slow down");
+  });
+
+  it("maps 5xx to a retryable ServerError", async () => {
+    const error = await errorFromResponse(jsonResponse(503, { error: "Overloaded" }), "OpenAI");
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect((error as ServerError).status).toBe(503);
+    expect(error.retryable).toBe(true);
+    expect(error.message).toBe("OpenAI error: Overloaded");
+  });
+
+  it.each([401, 403])("maps %i to InvalidApiKeyError", async (status) => {
+    const error = await errorFromResponse(jsonResponse(status, { error: { message: "Unauthorized" } }), "OpenAI");
+
+    expect(error).toBeInstanceOf(InvalidApiKeyError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it("recognizes Gemini's 400 for a bad key", async () => {
+    const error = await errorFromResponse(
+      jsonResponse(400, { error: { message: "API key not valid. Please pass a valid API key." } }),
+      "Gemini"
+    );
+
+    expect(error).toBeInstanceOf(InvalidApiKeyError);
+  });
+
+  it("maps any other failure to InvalidRequestError, falling back to the status line", async () => {
+    const error = await errorFromResponse(new Response("not json", { status: 404, statusText: "Not Found" }), "Ollama");
+
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect((error as InvalidRequestError).status).toBe(404);
+    expect(error.message).toBe("Ollama error: 404 Not Found");
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+  });
+
+  it("reads an HTTP date", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    try {
+      expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT")).toBe(10000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("ignores missing or unreadable values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
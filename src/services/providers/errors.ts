@@ -0,0 +1,123 @@
+import type { SafetyFeedback } from "./safety";
+import type { GenerationResult } from "./types";
+
+export type LlmErrorKind =
+  | "invalid_key"
+  | "quota"
+  | "safety_block"
+  | "network"
+  | "server"
+  | "malformed_stream"
+  | "invalid_request";
+
+// Base class for everything a provider request can fail with.
+// `retryable` errors are retried automatically before any text has been streamed.
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: LlmErrorKind, message: string, retryable = false) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+// The API key is missing, malformed or revoked
+export class InvalidApiKeyError extends LlmError {
+  constructor(message: string) {
+    super("invalid_key", message);
+  }
+}
+
+// HTTP 429: rate limit or quota exhausted
+export class QuotaExceededError extends LlmError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super("quota", message, true);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The prompt or the reply was withheld by the provider's safety filters
+export class SafetyBlockError extends LlmError {
+  readonly feedback: SafetyFeedback;
+  // The finished result, including any text streamed before the block
+  readonly result: GenerationResult;
+
+  constructor(feedback: SafetyFeedback, result: GenerationResult) {
+    super("safety_block", `Blocked by safety filters (${feedback.blockReason ?? feedback.finishReason})`);
+    this.feedback = feedback;
+    this.result = result;
+  }
+}
+
+// The provider could not be reached, or the connection dropped mid-stream
+export class NetworkError extends LlmError {
+  constructor(message: string) {
+    super("network", message, true);
+  }
+}
+
+// HTTP 5xx
+export class ServerError extends LlmError {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super("server", message, true);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The response body could not be parsed
+export class MalformedStreamError extends LlmError {
+  constructor(message: string) {
+    super("malformed_stream", message);
+  }
+}
+
+// Any other rejected request (bad model name, invalid parameters...)
+export class InvalidRequestError extends LlmError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super("invalid_request", message);
+    this.status = status;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Turns a failed response into the matching typed error
+export const errorFromResponse = async (response: Response, label: string): Promise<LlmError> => {
+  let detail = `${response.status} ${response.statusText}`;
+  try {
+    const errorData = await response.json();
+    console.error(`${label} error details:`, errorData);
+    detail = errorData?.error?.message ?? (typeof errorData?.error === "string" ? errorData.error : JSON.stringify(errorData));
+  } catch (e) {
+    console.error("Could not parse error response:", e);
+  }
+
+  const message = `${label} error: ${detail}`;
+  const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+
+  if (response.status === 429) return new QuotaExceededError(message, retryAfterMs);
+  if (response.status >= 500) return new ServerError(response.status, message, retryAfterMs);
+  // Gemini answers a bad key with 400 API_KEY_INVALID rather than 401
+  if (response.status === 401 || response.status === 403 || /api[ _]?key/i.test(detail)) {
+    return new InvalidApiKeyError(message);
+  }
+  return new InvalidRequestError(message, response.status);
+};
@@ -0,0 +1,83 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FUNCTIONS_URL } from "@/integrations/supabase/functions";
+import { ChatProvider, ProviderRequest } from "./types";
+import { fetchStream } from "./streamUtils";
+import { InvalidApiKeyError } from "./errors";
+import { parseGeminiStream } from "./geminiStream";
+import { HARM_CATEGORIES, parseSafetyThresholds } from "./safety";
+
+const GEMINI_MODEL = "gemini-2.0-flash";
+const MAX_STOP_SEQUENCES = 5;
+
+// Gemini takes the conversation as alternating "user" and "model" turns
+const buildContents = ({ history, prompt }: ProviderRequest) => [
+  ...history.map(msg => ({
+    role: msg.role === "assistant" ? "model" : "user",
+    parts: [{ text: msg.content }]
+  })),
+  { role: "user", parts: [{ text: prompt }] },
+];
+
+export const geminiProvider: ChatProvider = {
+  id: "gemini",
+  label: "Gemini",
+  description: "Google Gemini 2.0 Flash",
+  models: ["gemini-2.0-flash", "gemini-2.5-flash", "gemini-2.5-pro"],
+  maxStopSequences: MAX_STOP_SEQUENCES,
+  // The key is held by the secure_api_call edge function, so a session is all the browser needs
+  isConfigured: async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return !!session;
+  },
+
+  streamResponse: async (request, onChunk) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new InvalidApiKeyError("Please sign in to use Gemini");
+    }
+
+    const model = request.settings.model ?? GEMINI_MODEL;
+    const thresholds = request.safetyThresholds ?? parseSafetyThresholds(null);
+    const requestBody = {
+      systemInstruction: {
+        parts: [{ text: request.systemMessage }]
+      },
+      contents: buildContents(request),
+      generationConfig: {
+        temperature: request.settings.temperature,
+        topP: request.settings.topP,
+        topK: request.settings.topK,
+        maxOutputTokens: request.settings.maxOutputTokens,
+        candidateCount: request.settings.candidateCount,
+        // Settings saved while another provider was chosen can list more than Gemini accepts
+        ...(request.settings.stopSequences.length > 0 && { stopSequences: request.settings.stopSequences.slice(0, MAX_STOP_SEQUENCES) }),
+      },
+      safetySettings: HARM_CATEGORIES.map(({ id }) => ({
+        category: id,
+        threshold: thresholds[id]
+      }))
+    };
+
+    console.log("Sending request to Gemini through the secure_api_call proxy...");
+
+    // The proxy forwards the body to streamGenerateContent and streams the server-sent events back
+    const body = await fetchStream(`${FUNCTIONS_URL}/secure_api_call`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ provider: "gemini", model, request: requestBody, background: request.background })
+    }, "Gemini API");
+
+    console.log("Starting to process stream...");
+
+    const result = await parseGeminiStream(body, (text, candidateIndex) => {
+      if (candidateIndex === 0) onChunk(text);
+    }, request.signal);
+
+    console.log("Finish reason:", result.finishReason, "usage:", result.usageMetadata);
+    return { ...result, model };
+  },
+};
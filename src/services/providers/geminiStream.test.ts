@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseGeminiStream } from "./geminiStream";
+import { MalformedStreamError } from "./errors";
+
+const sseOf = (...events: unknown[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    const encoder = new TextEncoder();
+    events.forEach(event => controller.enqueue(encoder.encode(`data: ${typeof event === "string" ? event : JSON.stringify(event)}\r\n\r\n`)));
+    controller.close();
+  },
+});
+
+const textEvent = (text: string, index = 0, extra: Record<string, unknown> = {}) => ({
+  candidates: [{ index, content: { parts: [{ text }] }, ...extra }],
+});
+
+describe("parseGeminiStream", () => {
+  it("streams every text part once and folds them into the result", async () => {
+    const chunks: string[] = [];
+    const result = await parseGeminiStream(
+      sseOf(
+        textEvent("Hello"),
+        textEvent(", world"),
+        {
+          ...textEvent("!", 0, { finishReason: "STOP" }),
+          usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 4, totalTokenCount: 7 },
+        }
+      ),
+      text => chunks.push(text)
+    );
+
+    expect(chunks).toEqual(["Hello", ", world", "!"]);
+    expect(result.text).toBe("Hello, world!");
+    expect(result.finishReason).toBe("STOP");
+    expect(result.usageMetadata).toEqual({ promptTokenCount: 3, candidatesTokenCount: 4, totalTokenCount: 7 });
+  });
+
+  it("keeps candidates apart and sorted by index", async () => {
+    const seen: [string, number][] = [];
+    const result = await parseGeminiStream(
+      sseOf(textEvent("B", 1), textEvent("A", 0), textEvent("b", 1, { finishReason: "MAX_TOKENS" })),
+      (text, index) => seen.push([text, index])
+    );
+
+    expect(seen).toEqual([["B", 1], ["A", 0], ["b", 1]]);
+    expect(result.text).toBe("A");
+    expect(result.candidates).toEqual([
+      { index: 0, text: "A" },
+      { index: 1, text: "Bb", finishReason: "MAX_TOKENS" },
+    ]);
+  });
+
+  it("keeps the prompt feedback of a blocked prompt", async () => {
+    const result = await parseGeminiStream(sseOf({ promptFeedback: { blockReason: "SAFETY" } }), () => {});
+
+    expect(result.text).toBe("");
+    expect(result.promptFeedback).toEqual({ blockReason: "SAFETY" });
+    expect(result.candidates).toEqual([]);
+  });
+
+  it("throws MalformedStreamError on an event that is not JSON", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(parseGeminiStream(sseOf(textEvent("ok"), "{not json"), () => {}))
+      .rejects.toBeInstanceOf(MalformedStreamError);
+    vi.restoreAllMocks();
+  });
+});
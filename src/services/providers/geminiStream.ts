@@ -0,0 +1,68 @@
+import { CandidateResult, GenerationResult, PromptFeedback, SafetyRating, UsageMetadata } from "./types";
+import { readServerSentEvents } from "./streamUtils";
+import { MalformedStreamError } from "./errors";
+
+// One event of a streamGenerateContent?alt=sse response
+interface GeminiStreamEvent {
+  candidates?: {
+    index?: number;
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+    safetyRatings?: SafetyRating[];
+  }[];
+  promptFeedback?: PromptFeedback;
+  usageMetadata?: UsageMetadata;
+}
+
+// Folds the events of a Gemini SSE stream into one result.
+// Every text part of every candidate is handed to onText exactly once, in stream order.
+export const parseGeminiStream = async (
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string, candidateIndex: number) => void,
+  signal?: AbortSignal
+): Promise<GenerationResult> => {
+  const candidates = new Map<number, CandidateResult>();
+  let promptFeedback: PromptFeedback | undefined;
+  let usageMetadata: UsageMetadata | undefined;
+
+  await readServerSentEvents(body, (data) => {
+    let event: GeminiStreamEvent;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      console.error("Malformed Gemini stream event:", data.substring(0, 200));
+      throw new MalformedStreamError("Received a malformed event from the Gemini stream");
+    }
+
+    for (const candidate of event.candidates ?? []) {
+      const index = candidate.index ?? 0;
+      const result = candidates.get(index) ?? { index, text: "" };
+
+      for (const part of candidate.content?.parts ?? []) {
+        if (!part.text) continue;
+        result.text += part.text;
+        onText(part.text, index);
+      }
+
+      // Later events repeat or refine these, so keep the latest values
+      if (candidate.finishReason) result.finishReason = candidate.finishReason;
+      if (candidate.safetyRatings) result.safetyRatings = candidate.safetyRatings;
+      candidates.set(index, result);
+    }
+
+    if (event.promptFeedback) promptFeedback = event.promptFeedback;
+    if (event.usageMetadata) usageMetadata = event.usageMetadata;
+  }, signal);
+
+  const sortedCandidates = [...candidates.values()].sort((a, b) => a.index - b.index);
+  const first = candidates.get(0);
+
+  return {
+    text: first?.text ?? "",
+    finishReason: first?.finishReason,
+    safetyRatings: first?.safetyRatings,
+    usageMetadata,
+    promptFeedback,
+    candidates: sortedCandidates,
+  };
+};
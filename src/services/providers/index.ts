@@ -0,0 +1,55 @@
+import { ChatProvider, ProviderId } from "./types";
+import { geminiProvider } from "./gemini";
+import { openAiProvider } from "./openai";
+import { ollamaProvider } from "./ollama";
+import { mockProvider } from "./mock";
+
+export type {
+  ChatProvider,
+  GenerationResult,
+  GenerationSettings,
+  ProviderId,
+  ProviderRequest,
+  ProviderSettings,
+  SafetyRating,
+  UsageMetadata,
+} from "./types";
+export type { HarmCategory, SafetyFeedback, SafetyThreshold, SafetyThresholds } from "./safety";
+export {
+  DEFAULT_SAFETY_THRESHOLD,
+  HARM_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  getSafetyFeedback,
+  parseSafetyThresholds,
+} from "./safety";
+export {
+  DEFAULT_GENERATION_SETTINGS,
+  getProviderSettings,
+  parseGenerationSettings,
+  removeLegacyApiKeys,
+  setProviderSettings,
+} from "./settings";
+export { isAbortError } from "./streamUtils";
+export type { LlmErrorKind } from "./errors";
+export {
+  InvalidApiKeyError,
+  InvalidRequestError,
+  LlmError,
+  MalformedStreamError,
+  NetworkError,
+  QuotaExceededError,
+  SafetyBlockError,
+  ServerError,
+} from "./errors";
+
+export const DEFAULT_PROVIDER_ID: ProviderId = "gemini";
+
+export const PROVIDERS: ChatProvider[] = [
+  geminiProvider,
+  openAiProvider,
+  ollamaProvider,
+  mockProvider,
+];
+
+export const getProvider = (id?: string | null): ChatProvider =>
+  PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
@@ -0,0 +1,70 @@
+import { ChatProvider, ProviderRequest } from "./types";
+
+// Small delay between chunks so the UI exercises the same streaming path as a real provider
+const MOCK_CHUNK_DELAY_MS = 15;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The reply only depends on the request, so the same conversation always produces the same text
+export const buildMockResponse = ({ history, prompt }: ProviderRequest): string => {
+  const userTurns = history.filter(msg => msg.role === "user").length;
+
+  return [
+    "**Mock response** (offline provider, no API call was made)",
+    "",
+    `You asked: "${prompt}"`,
+    "",
+    `This conversation has ${history.length} earlier message${history.length === 1 ? "" : "s"} (${userTurns} from you).`,
+    "",
+    "1. Hook: open with a surprising fact about the topic.",
+    "2. Context: explain why it matters to the audience.",
+    "3. Discussion: cover two opposing perspectives.",
+    "4. Wrap-up: summarize and tease the next episode.",
+  ].join("\n");
+};
+
+export const mockProvider: ChatProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+  description: "Deterministic canned replies for offline use and tests",
+  models: [],
+  maxStopSequences: null,
+  isConfigured: async () => true,
+
+  streamResponse: async (request, onChunk) => {
+    // Words count as tokens, so maxOutputTokens cuts the reply off like a real provider would
+    const allChunks = buildMockResponse(request).match(/\S+\s*/g) ?? [];
+    const chunks = allChunks.slice(0, request.settings.maxOutputTokens);
+    const finishReason = chunks.length < allChunks.length ? "MAX_TOKENS" : "STOP";
+    const responseText = chunks.join("");
+
+    // Stream word by word, keeping the whitespace so the chunks join back to the full text
+    for (const chunk of chunks) {
+      await delay(MOCK_CHUNK_DELAY_MS);
+      if (request.signal?.aborted) {
+        throw new DOMException("Generation stopped", "AbortError");
+      }
+      onChunk(chunk);
+    }
+
+    // Extra candidates are labelled copies, enough to exercise the version switcher
+    const candidates = Array.from({ length: Math.max(1, request.settings.candidateCount) }, (_, index) => ({
+      index,
+      text: index === 0 ? responseText : `*Alternative ${index + 1}*\n\n${responseText}`,
+      finishReason,
+    }));
+
+    const promptTokenCount = (request.systemMessage + request.prompt).split(/\s+/).length;
+    return {
+      text: responseText,
+      finishReason,
+      usageMetadata: {
+        promptTokenCount,
+        candidatesTokenCount: chunks.length * candidates.length,
+        totalTokenCount: promptTokenCount + chunks.length * candidates.length,
+      },
+      candidates,
+      model: "mock",
+    };
+  },
+};
@@ -0,0 +1,76 @@
+import { ChatProvider, UsageMetadata } from "./types";
+import { getProviderSettings } from "./settings";
+import { buildChatMessages } from "./openai";
+import { fetchStream, readLines, singleCandidateResult } from "./streamUtils";
+import { InvalidRequestError } from "./errors";
+
+export const ollamaProvider: ChatProvider = {
+  id: "ollama",
+  label: "Ollama (local)",
+  description: "A model served by a local Ollama instance",
+  models: [],
+  maxStopSequences: null,
+  isConfigured: async () => !!getProviderSettings("ollama").baseUrl,
+
+  streamResponse: async (request, onChunk) => {
+    const { baseUrl, model: defaultModel } = getProviderSettings("ollama");
+    const model = request.settings.model ?? defaultModel;
+
+    const body = await fetchStream(`${baseUrl.replace(/\/$/, "")}/api/chat`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      // Ollama generates a single candidate, so candidateCount is ignored
+      body: JSON.stringify({
+        model,
+        messages: buildChatMessages(request),
+        stream: true,
+        options: {
+          temperature: request.settings.temperature,
+          top_p: request.settings.topP,
+          top_k: request.settings.topK,
+          num_predict: request.settings.maxOutputTokens,
+          ...(request.settings.stopSequences.length > 0 && { stop: request.settings.stopSequences }),
+        },
+      })
+    }, "Ollama");
+
+    let responseText = "";
+    let finishReason: string | undefined;
+    let usageMetadata: UsageMetadata | undefined;
+
+    // Ollama streams newline-delimited JSON objects
+    await readLines(body, (line) => {
+      try {
+        const event = JSON.parse(line);
+        if (event.error) {
+          // e.g. an unknown model, reported inside the stream rather than as an HTTP status
+          throw new InvalidRequestError(`Ollama error: ${event.error}`);
+        }
+        const text = event.message?.content;
+        if (text) {
+          responseText += text;
+          onChunk(text);
+        }
+        if (event.done) {
+          finishReason = event.done_reason === "length" ? "MAX_TOKENS" : "STOP";
+          usageMetadata = {
+            promptTokenCount: event.prompt_eval_count,
+            candidatesTokenCount: event.eval_count,
+            totalTokenCount: (event.prompt_eval_count ?? 0) + (event.eval_count ?? 0),
+          };
+        }
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          console.error("Failed to parse Ollama stream line:", error);
+          return;
+        }
+        throw error;
+      }
+    }, request.signal);
+
+    return { ...singleCandidateResult(responseText, finishReason, usageMetadata), model };
+  },
+};
@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FUNCTIONS_URL } from "@/integrations/supabase/functions";
+import { hasDefaultApiKey } from "@/services/apiKeyService";
+import { CandidateResult, ChatProvider, ProviderRequest, UsageMetadata } from "./types";
+import { getProviderSettings } from "./settings";
+import { fetchStream, readServerSentEvents } from "./streamUtils";
+import { InvalidApiKeyError, MalformedStreamError } from "./errors";
+
+// OpenAI's chat completions take up to four stop sequences
+const MAX_STOP_SEQUENCES = 4;
+
+// Chat-completions message list shared by OpenAI-compatible and Ollama endpoints
+export const buildChatMessages = ({ systemMessage, history, prompt }: ProviderRequest) => [
+  { role: "system", content: systemMessage },
+  ...history.map(msg => ({ role: msg.role, content: msg.content })),
+  { role: "user", content: prompt },
+];
+
+export const openAiProvider: ChatProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+  description: "Any public https /chat/completions endpoint (OpenAI, OpenRouter, Groq...)",
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1"],
+  maxStopSequences: MAX_STOP_SEQUENCES,
+  // The key is the default OpenAI-compatible key in the user's vault, used by secure_api_call
+  isConfigured: async () => {
+    const { baseUrl } = getProviderSettings("openai");
+    return !!baseUrl && await hasDefaultApiKey("openai");
+  },
+
+  streamResponse: async (request, onChunk) => {
+    const { baseUrl, model } = getProviderSettings("openai");
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session || !baseUrl) {
+      throw new InvalidApiKeyError("OpenAI-compatible provider is not configured");
+    }
+
+    // top_k has no chat-completions equivalent and is left out
+    const requestBody = {
+      model: request.settings.model ?? model,
+      messages: buildChatMessages(request),
+      stream: true,
+      stream_options: { include_usage: true },
+      temperature: request.settings.temperature,
+      top_p: request.settings.topP,
+      max_tokens: request.settings.maxOutputTokens,
+      n: request.settings.candidateCount,
+      ...(request.settings.stopSequences.length > 0 && { stop: request.settings.stopSequences.slice(0, MAX_STOP_SEQUENCES) }),
+    };
+
+    const body = await fetchStream(`${FUNCTIONS_URL}/secure_api_call`, {
+      method: "POST",
+      signal: request.signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        provider: "openai",
+        baseUrl: baseUrl.replace(/\/$/, ""),
+        request: requestBody,
+        background: request.background
+      })
+    }, "OpenAI-compatible API");
+
+    // With n > 1 the deltas of every choice are interleaved, keyed by choice index
+    const candidates = new Map<number, CandidateResult>();
+    let usageMetadata: UsageMetadata | undefined;
+
+    // Each server-sent event carries one JSON delta, "[DONE]" ends the stream
+    await readServerSentEvents(body, (data) => {
+      if (data === "[DONE]") return;
+
+      let event;
+      try {
+        event = JSON.parse(data);
+      } catch (error) {
+        console.error("Malformed OpenAI-compatible stream event:", data.substring(0, 200));
+        throw new MalformedStreamError("Received a malformed event from the OpenAI-compatible stream");
+      }
+
+      for (const choice of event.choices ?? []) {
+        const index = choice.index ?? 0;
+        const candidate: CandidateResult = candidates.get(index) ?? { index, text: "" };
+        candidates.set(index, candidate);
+
+        const text = choice.delta?.content;
+        if (text) {
+          candidate.text += text;
+          if (index === 0) onChunk(text);
+        }
+        if (choice.finish_reason) {
+          candidate.finishReason = choice.finish_reason === "length" ? "MAX_TOKENS" : choice.finish_reason.toUpperCase();
+        }
+      }
+      if (event.usage) {
+        usageMetadata = {
+          promptTokenCount: event.usage.prompt_tokens,
+          candidatesTokenCount: event.usage.completion_tokens,
+          totalTokenCount: event.usage.total_tokens,
+        };
+      }
+    }, request.signal);
+
+    const sorted = [...candidates.values()].sort((a, b) => a.index - b.index);
+    return {
+      text: candidates.get(0)?.text ?? "",
+      finishReason: candidates.get(0)?.finishReason,
+      usageMetadata,
+      candidates: sorted.length > 0 ? sorted : [{ index: 0, text: "" }],
+      model: requestBody.model,
+    };
+  },
+};
@@ -0,0 +1,61 @@
+import { GenerationResult, SafetyRating } from "./types";
+
+export const HARM_CATEGORIES = [
+  { id: "HARM_CATEGORY_HARASSMENT", label: "Harassment" },
+  { id: "HARM_CATEGORY_HATE_SPEECH", label: "Hate speech" },
+  { id: "HARM_CATEGORY_SEXUALLY_EXPLICIT", label: "Sexually explicit" },
+  { id: "HARM_CATEGORY_DANGEROUS_CONTENT", label: "Dangerous content" },
+] as const;
+
+export const SAFETY_THRESHOLDS = [
+  { id: "BLOCK_NONE", label: "Block none" },
+  { id: "BLOCK_ONLY_HIGH", label: "Block few (high only)" },
+  { id: "BLOCK_MEDIUM_AND_ABOVE", label: "Block some (medium and above)" },
+  { id: "BLOCK_LOW_AND_ABOVE", label: "Block most (low and above)" },
+] as const;
+
+export type HarmCategory = typeof HARM_CATEGORIES[number]["id"];
+export type SafetyThreshold = typeof SAFETY_THRESHOLDS[number]["id"];
+export type SafetyThresholds = Record<HarmCategory, SafetyThreshold>;
+
+export const DEFAULT_SAFETY_THRESHOLD: SafetyThreshold = "BLOCK_MEDIUM_AND_ABOVE";
+
+// Reads a show's safety_settings column; categories that are missing keep the default threshold
+export const parseSafetyThresholds = (value: unknown): SafetyThresholds => {
+  const stored = value && typeof value === "object" && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+  const isThreshold = (threshold: unknown): threshold is SafetyThreshold =>
+    SAFETY_THRESHOLDS.some(item => item.id === threshold);
+
+  return Object.fromEntries(HARM_CATEGORIES.map(({ id }) => [
+    id,
+    isThreshold(stored[id]) ? stored[id] : DEFAULT_SAFETY_THRESHOLD,
+  ])) as SafetyThresholds;
+};
+
+// Finish reasons Gemini uses when it withholds a candidate
+const BLOCKED_FINISH_REASONS = ["SAFETY", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "RECITATION"];
+
+// Why a reply was withheld, saved with the message so the notice survives a reload
+export interface SafetyFeedback {
+  blockReason?: string;
+  finishReason?: string;
+  safetyRatings: SafetyRating[];
+}
+
+// Returns the block details of a result, or null when the reply was not blocked
+export const getSafetyFeedback = (result: GenerationResult): SafetyFeedback | null => {
+  const blockReason = result.promptFeedback?.blockReason;
+  const finishReason = result.finishReason && BLOCKED_FINISH_REASONS.includes(result.finishReason)
+    ? result.finishReason
+    : undefined;
+  if (!blockReason && !finishReason) return null;
+
+  return {
+    blockReason,
+    finishReason,
+    // A blocked prompt is rated in promptFeedback, a blocked reply on the candidate
+    safetyRatings: result.promptFeedback?.safetyRatings ?? result.safetyRatings ?? [],
+  };
+};
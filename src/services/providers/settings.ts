@@ -0,0 +1,66 @@
+import { GenerationSettings, ProviderId, ProviderSettings } from "./types";
+
+const DEFAULT_SETTINGS: Partial<Record<ProviderId, ProviderSettings>> = {
+  openai: { baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini" },
+  ollama: { baseUrl: "http://localhost:11434", model: "llama3.1" },
+};
+
+const storageKey = (id: ProviderId) => `provider_settings_${id}`;
+
+export const getProviderSettings = (id: ProviderId): ProviderSettings => {
+  const defaults = DEFAULT_SETTINGS[id] ?? {};
+  const stored = localStorage.getItem(storageKey(id));
+  if (!stored) return { ...defaults };
+
+  try {
+    return { ...defaults, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error("Failed to parse provider settings:", error);
+    return { ...defaults };
+  }
+};
+
+export const setProviderSettings = (id: ProviderId, settings: ProviderSettings): void => {
+  localStorage.setItem(storageKey(id), JSON.stringify(settings));
+};
+
+// API keys used to be kept here in plaintext; they now live encrypted in the user's key vault
+export const removeLegacyApiKeys = (): void => {
+  localStorage.removeItem("gemini_api_key");
+
+  const { apiKey, ...settings } = getProviderSettings("openai") as ProviderSettings & { apiKey?: string };
+  if (apiKey !== undefined) setProviderSettings("openai", settings);
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: null,
+  temperature: 0.7,
+  topP: 0.8,
+  topK: 40,
+  maxOutputTokens: 8192,
+  stopSequences: [],
+  candidateCount: 1,
+  autoContinue: false,
+};
+
+// Reads the generation_settings column, keeping the defaults for missing or malformed fields
+export const parseGenerationSettings = (value: unknown): GenerationSettings => {
+  const stored = value && typeof value === "object" && !Array.isArray(value)
+    ? value as Partial<Record<keyof GenerationSettings, unknown>>
+    : {};
+  const numberOr = (field: unknown, fallback: number) =>
+    typeof field === "number" && Number.isFinite(field) ? field : fallback;
+
+  return {
+    model: typeof stored.model === "string" && stored.model ? stored.model : null,
+    temperature: numberOr(stored.temperature, DEFAULT_GENERATION_SETTINGS.temperature),
+    topP: numberOr(stored.topP, DEFAULT_GENERATION_SETTINGS.topP),
+    topK: numberOr(stored.topK, DEFAULT_GENERATION_SETTINGS.topK),
+    maxOutputTokens: numberOr(stored.maxOutputTokens, DEFAULT_GENERATION_SETTINGS.maxOutputTokens),
+    stopSequences: Array.isArray(stored.stopSequences)
+      ? stored.stopSequences.filter((item): item is string => typeof item === "string" && item !== "")
+      : [],
+    candidateCount: numberOr(stored.candidateCount, DEFAULT_GENERATION_SETTINGS.candidateCount),
+    autoContinue: typeof stored.autoContinue === "boolean" ? stored.autoContinue : DEFAULT_GENERATION_SETTINGS.autoContinue,
+  };
+};
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchStream, readLines, readServerSentEvents } from "./streamUtils";
+import { InvalidRequestError, QuotaExceededError } from "./errors";
+
+const streamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    const encoder = new TextEncoder();
+    chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+    controller.close();
+  },
+});
+
+// A body that stays open after its chunks, like a reply still streaming, and reports its cancellation
+const openStreamOf = (onCancel: () => void, ...chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    const encoder = new TextEncoder();
+    chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+  },
+  cancel: onCancel,
+});
+
+const collectEvents = async (body: ReadableStream<Uint8Array>) => {
+  const events: string[] = [];
+  await readServerSentEvents(body, data => events.push(data));
+  return events;
+};
+
+describe("readServerSentEvents", () => {
+  it("hands over one data payload per event", async () => {
+    expect(await collectEvents(streamOf("data: one\n\ndata: two\n\n"))).toEqual(["one", "two"]);
+  });
+
+  it("joins events split across chunks", async () => {
+    expect(await collectEvents(streamOf("da", "ta: {\"a\":", "1}\n", "\ndata: 2\n\n"))).toEqual(["{\"a\":1}", "2"]);
+  });
+
+  it("joins multi-line data with newlines and handles CRLF", async () => {
+    expect(await collectEvents(streamOf("data: first\r\ndata: second\r\n\r\n"))).toEqual(["first\nsecond"]);
+  });
+
+  it("skips comments and other fields", async () => {
+    expect(await collectEvents(streamOf(": keep-alive\n\nevent: message\nid: 7\ndata:x\n\n"))).toEqual(["x"]);
+  });
+
+  it("dispatches a final event without a trailing blank line", async () => {
+    expect(await collectEvents(streamOf("data: one\n\ndata: last"))).toEqual(["one", "last"]);
+  });
+
+  it("stops with an AbortError once the signal fires", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(readServerSentEvents(streamOf("data: one\n\n"), () => {}, controller.signal))
+      .rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("cancels the stream when the event handler throws", async () => {
+    const onCancel = vi.fn();
+    await expect(readServerSentEvents(openStreamOf(onCancel, "data: {broken\n\n"), () => {
+      throw new SyntaxError("Unexpected token");
+    })).rejects.toThrow("Unexpected token");
+    expect(onCancel).toHaveBeenCalledOnce();
+  });
+});
+
+describe("readLines", () => {
+  it("hands over complete non-empty lines, including an unterminated last one", async () => {
+    const lines: string[] = [];
+    await readLines(streamOf("{\"a\":1}\n\n{\"b\"", ":2}\n{\"c\":3}"), line => lines.push(line));
+    expect(lines).toEqual(["{\"a\":1}", "{\"b\":2}", "{\"c\":3}"]);
+  });
+
+  it("cancels the stream when the line handler throws", async () => {
+    const onCancel = vi.fn();
+    await expect(readLines(openStreamOf(onCancel, "{broken\n"), () => {
+      throw new SyntaxError("Unexpected token");
+    })).rejects.toThrow("Unexpected token");
+    expect(onCancel).toHaveBeenCalledOnce();
+  });
+});
+
+describe("fetchStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const errorResponse = (status: number, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify({ error: { message: "nope" } }), { status, headers });
+
+  it("retries a rate limit after its Retry-After and returns the body", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(errorResponse(429, { "Retry-After": "0" }))
+      .mockResolvedValueOnce(new Response("data: ok\n\n"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const body = await fetchStream("https://example.test", { method: "POST" }, "Test");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await collectEvents(body)).toEqual(["ok"]);
+  });
+
+  it("backs off exponentially and gives up after four attempts", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const fetchMock = vi.fn().mockImplementation(async () => errorResponse(503));
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const request = fetchStream("https://example.test", { method: "POST" }, "Test");
+      const settled = expect(request).rejects.toMatchObject({ kind: "server", status: 503 });
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000 + 4000);
+
+      await settled;
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("throws instead of waiting out a Retry-After over 30 seconds", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(429, { "Retry-After": "120" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(fetchStream("https://example.test", { method: "POST" }, "Test"))
+      .rejects.toBeInstanceOf(QuotaExceededError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry a rejected request", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(400));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(fetchStream("https://example.test", { method: "POST" }, "Test"))
+      .rejects.toBeInstanceOf(InvalidRequestError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,181 @@
+import { GenerationResult, UsageMetadata } from "./types";
+import { LlmError, MalformedStreamError, NetworkError, QuotaExceededError, ServerError, errorFromResponse } from "./errors";
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+// A Retry-After longer than this is reported to the user instead of waited out
+const RETRY_MAX_DELAY_MS = 30000;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Reads the next chunk, cancelling the reader instead once the signal has fired
+const readChunk = async (
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  signal?: AbortSignal
+) => {
+  if (signal?.aborted) {
+    await reader.cancel();
+    throw new DOMException("Generation stopped", "AbortError");
+  }
+  try {
+    return await reader.read();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(`The connection dropped while streaming: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Closes the HTTP stream when reading stops early, e.g. because a chunk handler threw.
+// Cancelling a body that was read to the end, or already cancelled, does nothing.
+const releaseReader = (reader: ReadableStreamDefaultReader<Uint8Array>) => {
+  reader.cancel().catch(() => {});
+};
+
+// Waits for `ms`, rejecting as soon as the signal fires
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException("Generation stopped", "AbortError"));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException("Generation stopped", "AbortError"));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+// The server's Retry-After when it sent one, otherwise exponential backoff with jitter.
+// null means the wait is too long to retry.
+const retryDelayMs = (error: LlmError, attempt: number): number | null => {
+  const retryAfterMs = error instanceof QuotaExceededError || error instanceof ServerError
+    ? error.retryAfterMs
+    : undefined;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= RETRY_MAX_DELAY_MS ? retryAfterMs : null;
+  }
+  return RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY_MS;
+};
+
+// POSTs a streaming request and returns its body. Rate limits, 5xx responses and network
+// failures are retried with backoff; nothing has been streamed yet at that point, so this is safe.
+export const fetchStream = async (
+  url: string,
+  init: RequestInit,
+  label: string
+): Promise<ReadableStream<Uint8Array>> => {
+  for (let attempt = 1; ; attempt++) {
+    let error: LlmError;
+    try {
+      const response = await fetch(url, init);
+      if (response.ok) {
+        if (!response.body) throw new MalformedStreamError(`${label} returned an empty response body`);
+        return response.body;
+      }
+      error = await errorFromResponse(response, label);
+    } catch (fetchError) {
+      if (isAbortError(fetchError) || fetchError instanceof LlmError) throw fetchError;
+      // fetch only rejects on its own when the server could not be reached
+      error = new NetworkError(`Could not reach ${label}: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`);
+    }
+
+    const delay = retryDelayMs(error, attempt);
+    if (!error.retryable || attempt >= MAX_ATTEMPTS || delay === null) throw error;
+
+    console.warn(`${error.message}. Retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${MAX_ATTEMPTS})...`);
+    await sleep(delay, init.signal);
+  }
+};
+
+// Reads a streamed body line by line, keeping incomplete lines buffered until the next chunk
+export const readLines = async (
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await readChunk(reader, signal);
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.trim()) onLine(line);
+      }
+    }
+  } finally {
+    releaseReader(reader);
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer);
+};
+
+// Reads a server-sent events body and hands over the data of each complete event.
+// Events end with a blank line; multi-line "data:" fields are joined with newlines.
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) onEvent(dataLines.join("\n"));
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+    } else if (line.startsWith("data:")) {
+      const value = line.slice(5);
+      dataLines.push(value.startsWith(" ") ? value.slice(1) : value);
+    }
+    // Comments (":") and the event/id/retry fields carry nothing we use
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await readChunk(reader, signal);
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      lines.forEach(processLine);
+    }
+  } finally {
+    releaseReader(reader);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) processLine(buffer);
+  dispatch();
+};
+
+// Wraps the output of a provider that only ever returns one candidate
+export const singleCandidateResult = (
+  text: string,
+  finishReason?: string,
+  usageMetadata?: UsageMetadata
+): GenerationResult => ({
+  text,
+  finishReason,
+  usageMetadata,
+  candidates: [{ index: 0, text, finishReason }],
+});
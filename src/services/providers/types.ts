@@ -0,0 +1,90 @@
+import { Message } from "@/services/geminiService";
+import type { SafetyThresholds } from "./safety";
+
+export type ProviderId = "gemini" | "openai" | "ollama" | "mock";
+
+// Everything an adapter needs to build its own request format
+export interface ProviderRequest {
+  systemMessage: string;
+  history: Message[];
+  prompt: string;
+  settings: GenerationSettings;
+  // Per-category block thresholds; only Gemini applies them
+  safetyThresholds?: SafetyThresholds;
+  // Aborts the fetch and the stream reader when the user stops generation
+  signal?: AbortSignal;
+  // Summaries, memory proposals and titles; the proxy rate limits them apart from replies
+  background?: boolean;
+}
+
+// Sampling options tuned per conversation; adapters ignore the ones their API lacks
+export interface GenerationSettings {
+  // null uses the provider's default model
+  model: string | null;
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number;
+  stopSequences: string[];
+  // Extra candidates are saved as alternative versions of the reply
+  candidateCount: number;
+  // Keep requesting more text while the reply stops on MAX_TOKENS
+  autoContinue: boolean;
+}
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+export interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export interface PromptFeedback {
+  blockReason?: string;
+  safetyRatings?: SafetyRating[];
+}
+
+export interface CandidateResult {
+  index: number;
+  text: string;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+}
+
+// What a finished stream reports back, using Gemini's field names for every provider
+export interface GenerationResult {
+  // Text of the first candidate, the one streamed through onChunk
+  text: string;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  usageMetadata?: UsageMetadata;
+  promptFeedback?: PromptFeedback;
+  candidates: CandidateResult[];
+  // Model id that produced the reply, used to price its usage
+  model?: string;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  // Suggested model ids for the settings panel; empty when any model name is accepted
+  models: string[];
+  // How many stop sequences the API accepts; null when it sets no limit
+  maxStopSequences: number | null;
+  // Whether the provider has what it needs (API key, base URL...) to send a request
+  isConfigured: () => Promise<boolean>;
+  // Streams the first candidate through onChunk and resolves with the full result
+  streamResponse: (request: ProviderRequest, onChunk: (chunk: string) => void) => Promise<GenerationResult>;
+}
+
+// Connection settings for providers that are configured in the browser
+export interface ProviderSettings {
+  baseUrl?: string;
+  model?: string;
+}
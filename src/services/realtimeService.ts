@@ -0,0 +1,172 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { v4 as uuidv4 } from "uuid";
+import { ConversationRow } from "@/services/conversationService";
+
+export type MessageChangeRow = Database["public"]["Tables"]["messages"]["Row"];
+
+// Someone else in the workspace, as one of their open tabs reports them
+export interface Collaborator {
+  userId: string;
+  email: string;
+  conversationId: string | null;
+  generating: boolean; // A reply is streaming for them in that conversation
+}
+
+export interface PresenceStatus {
+  conversationId: string | null;
+  generating: boolean;
+}
+
+export interface WorkspacePresence {
+  update: (status: PresenceStatus) => void;
+  leave: () => void;
+}
+
+interface PresencePayload {
+  user_id: string;
+  email: string;
+  conversation_id: string | null;
+  generating: boolean;
+}
+
+// Short display name for a collaborator
+export const collaboratorName = (collaborator: Collaborator) => collaborator.email.split("@")[0] || "Someone";
+
+// Every subscription gets its own channel, so the sidebar and the chat can listen to the same table
+const channelName = (prefix: string) => `${prefix}:${uuidv4()}`;
+
+// Conversation rows of a workspace, or of the user's personal space, as they are created, changed
+// and deleted. A conversation that moves out of the space is reported as removed. Rows carry no
+// organization, which is each user's own and only changes through their own sidebar.
+export const subscribeToConversations = (
+  scope: { workspaceId: string | null; userId: string },
+  handlers: {
+    onChange: (conversation: ConversationRow) => void;
+    onRemove: (id: string) => void;
+  }
+): (() => void) => {
+  const filter = scope.workspaceId ? `workspace_id=eq.${scope.workspaceId}` : `user_id=eq.${scope.userId}`;
+  const handleRow = (conversation: ConversationRow) => {
+    if (conversation.workspace_id === scope.workspaceId) {
+      handlers.onChange(conversation);
+    } else {
+      handlers.onRemove(conversation.id);
+    }
+  };
+
+  const channel = supabase
+    .channel(channelName("conversations"))
+    .on<ConversationRow>(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "conversations", filter },
+      payload => handleRow(payload.new)
+    )
+    .on<ConversationRow>(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "conversations", filter },
+      payload => handleRow(payload.new)
+    )
+    // Deletes cannot be filtered and only carry the id, so every subscriber checks its own list
+    .on<ConversationRow>(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "conversations" },
+      payload => payload.old.id && handlers.onRemove(payload.old.id)
+    )
+    .subscribe((status, error) => {
+      if (status === "CHANNEL_ERROR") console.error("Error subscribing to conversations:", error);
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// New and changed messages of one conversation
+export const subscribeToMessages = (
+  conversationId: string,
+  onChange: (row: MessageChangeRow) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(channelName("messages"))
+    .on<MessageChangeRow>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "messages", filter: `conversation_id=eq.${conversationId}` },
+      payload => {
+        if (payload.eventType !== "DELETE") onChange(payload.new);
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === "CHANNEL_ERROR") console.error("Error subscribing to messages:", error);
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Tabs of the same user on the same conversation collapse into one collaborator
+const collapsePresence = (entries: PresencePayload[]): Collaborator[] => {
+  const byKey = new Map<string, Collaborator>();
+  for (const entry of entries) {
+    const key = `${entry.user_id}:${entry.conversation_id}`;
+    const existing = byKey.get(key);
+    byKey.set(key, {
+      userId: entry.user_id,
+      email: entry.email,
+      conversationId: entry.conversation_id,
+      generating: entry.generating || (existing?.generating ?? false),
+    });
+  }
+  return [...byKey.values()].sort((a, b) => a.email.localeCompare(b.email));
+};
+
+// Joins the workspace's private presence channel, reporting which conversation this tab has open and
+// whether it is generating. onSync receives the other members' tabs whenever they change.
+export const joinWorkspacePresence = (
+  workspaceId: string,
+  self: { id: string; email?: string },
+  onSync: (collaborators: Collaborator[]) => void
+): WorkspacePresence => {
+  let status: PresenceStatus = { conversationId: null, generating: false };
+  let joined = false;
+
+  const channel = supabase.channel(`presence:workspace:${workspaceId}`, {
+    // One presence entry per tab, so closing one tab does not hide the others
+    config: { private: true, presence: { key: uuidv4() } },
+  });
+
+  const track = () => {
+    const payload: PresencePayload = {
+      user_id: self.id,
+      email: self.email ?? "",
+      conversation_id: status.conversationId,
+      generating: status.generating,
+    };
+    return channel.track(payload);
+  };
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      const entries = Object.values(channel.presenceState<PresencePayload>()).flat();
+      onSync(collapsePresence(entries.filter(entry => entry.user_id !== self.id)));
+    })
+    .subscribe((channelStatus, error) => {
+      if (channelStatus === "SUBSCRIBED") {
+        joined = true;
+        track();
+      } else if (channelStatus === "CHANNEL_ERROR") {
+        console.error("Error joining workspace presence:", error);
+      }
+    });
+
+  return {
+    update: (next) => {
+      status = next;
+      if (joined) track();
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
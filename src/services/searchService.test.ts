@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { parseSnippet } from "./searchService";
+
+describe("parseSnippet", () => {
+  it("returns plain text as one part", () => {
+    expect(parseSnippet("no matches here")).toEqual([{ text: "no matches here", match: false }]);
+  });
+
+  it("splits matched words from the text around them", () => {
+    expect(parseSnippet("an \u0002episode\u0003 about \u0002audio\u0003 gear")).toEqual([
+      { text: "an ", match: false },
+      { text: "episode", match: true },
+      { text: " about ", match: false },
+      { text: "audio", match: true },
+      { text: " gear", match: false },
+    ]);
+  });
+
+  it("handles matches at the start, at the end and back to back", () => {
+    expect(parseSnippet("\u0002one\u0003\u0002two\u0003")).toEqual([
+      { text: "one", match: true },
+      { text: "two", match: true },
+    ]);
+  });
+
+  it("returns nothing for an empty snippet", () => {
+    expect(parseSnippet("")).toEqual([]);
+  });
+});
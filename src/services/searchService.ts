@@ -0,0 +1,68 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: "user" | "assistant";
+  snippet: string;
+  timestamp: Date;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// search_messages wraps matched words in these control characters
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+// Full-text search over the messages of a workspace, or the user's personal ones, best matches first.
+// The query uses web search syntax: "exact phrase", -excluded, or.
+export const searchMessages = async (
+  query: string,
+  workspaceId: string | null = null,
+  limit = 30
+): Promise<MessageSearchResult[]> => {
+  if (!query.trim()) return [];
+
+  try {
+    const { data, error } = await supabase.rpc("search_messages", {
+      p_query: query.trim(),
+      p_limit: limit,
+      ...(workspaceId && { p_workspace_id: workspaceId }),
+    });
+
+    if (error) throw error;
+
+    return (data ?? []).map(row => ({
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title,
+      role: row.role as "user" | "assistant",
+      snippet: row.snippet,
+      timestamp: new Date(row.timestamp),
+    }));
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    toast.error("Search failed");
+    return [];
+  }
+};
+
+// Splits a snippet into plain text and matched words
+export const parseSnippet = (snippet: string): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  for (const segment of snippet.split(MATCH_START)) {
+    const end = segment.indexOf(MATCH_END);
+    if (end === -1) {
+      if (segment) parts.push({ text: segment, match: false });
+      continue;
+    }
+    parts.push({ text: segment.substring(0, end), match: true });
+    if (end + 1 < segment.length) parts.push({ text: segment.substring(end + 1), match: false });
+  }
+  return parts;
+};
@@ -0,0 +1,116 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Message } from "@/services/geminiService";
+import { MessageRow, buildActivePath } from "@/services/conversationService";
+
+export interface ConversationShare {
+  id: string;
+  conversation_id: string;
+  token: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// What a visitor with a share link sees
+export interface SharedConversation {
+  title: string;
+  synopsis: string | null;
+  created_at: string;
+  updated_at: string;
+  expires_at: string | null;
+  messages: Message[];
+}
+
+// What get_shared_conversation returns for a live link
+type SharedConversationRow = Omit<SharedConversation, "messages"> & { messages: MessageRow[] };
+
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const isShareExpired = (share: Pick<ConversationShare, "expires_at">) =>
+  share.expires_at !== null && new Date(share.expires_at) <= new Date();
+
+export const getConversationShares = async (conversationId: string): Promise<ConversationShare[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("conversation_shares")
+      .select("id, conversation_id, token, expires_at, created_at")
+      .eq("conversation_id", conversationId)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching share links:", error);
+    toast.error("Failed to load share links");
+    return [];
+  }
+};
+
+// A new read-only link; expiresAt null keeps it working until it is revoked
+export const createConversationShare = async (
+  conversationId: string,
+  expiresAt: Date | null
+): Promise<ConversationShare | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to share a conversation");
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("conversation_shares")
+      .insert({
+        user_id: user.id,
+        conversation_id: conversationId,
+        expires_at: expiresAt?.toISOString() ?? null
+      })
+      .select("id, conversation_id, token, expires_at, created_at")
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    toast.error("Failed to create share link");
+    return null;
+  }
+};
+
+// Revoking deletes the link, so its token stops working immediately
+export const revokeConversationShare = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("conversation_shares")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error revoking share link:", error);
+    toast.error("Failed to revoke share link");
+    return false;
+  }
+};
+
+// Loads a conversation through its share token; works signed out. Returns null when the link
+// does not exist, has expired or was revoked, which the RPC makes indistinguishable.
+export const getSharedConversation = async (token: string): Promise<SharedConversation | null> => {
+  try {
+    const { data, error } = await supabase.rpc("get_shared_conversation", { p_token: token });
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const shared = data as unknown as SharedConversationRow;
+    return { ...shared, messages: buildActivePath(shared.messages) };
+  } catch (error) {
+    console.error("Error loading shared conversation:", error);
+    return null;
+  }
+};
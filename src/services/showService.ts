@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface Show {
+  id: string;
+  name: string;
+  description: string | null;
+  format: string | null;
+  episode_length_minutes: number | null;
+  hosts: string | null;
+  target_audience: string | null;
+  tone: string | null;
+  recurring_segments: string[];
+  banned_topics: string[];
+  // Read with parseSafetyThresholds, which fills in the default threshold
+  safety_settings: Json;
+  // null for the creator's personal shows
+  workspace_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ShowInput = Omit<Show, "id" | "workspace_id" | "created_at" | "updated_at">;
+
+// Get the shows of a workspace, or the current user's personal ones, alphabetically
+export const getShows = async (workspaceId: string | null = null): Promise<Show[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    let query = supabase.from("shows").select("*");
+    query = workspaceId
+      ? query.eq("workspace_id", workspaceId)
+      : query.eq("user_id", user.id).is("workspace_id", null);
+
+    const { data, error } = await query.order("name", { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error("Error fetching shows:", error);
+    toast.error("Failed to load shows");
+    return [];
+  }
+};
+
+export const createShow = async (show: ShowInput, workspaceId: string | null = null): Promise<Show | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to create a show");
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("shows")
+      .insert({ ...show, user_id: user.id, workspace_id: workspaceId })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating show:", error);
+    toast.error("Failed to create show");
+    return null;
+  }
+};
+
+export const updateShow = async (id: string, show: Partial<ShowInput>): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("shows")
+      .update({ ...show, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error updating show:", error);
+    toast.error("Failed to update show");
+    return false;
+  }
+};
+
+// Conversations attached to the show keep their messages and lose the link
+export const deleteShow = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("shows")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting show:", error);
+    toast.error("Failed to delete show");
+    return false;
+  }
+};
+
+// The show profile block for the system prompt, skipping fields that were left empty
+export const buildShowProfile = (show: Show): string => {
+  const lines = [
+    `Show name: ${show.name}`,
+    show.description && `Description: ${show.description}`,
+    show.format && `Format: ${show.format}`,
+    show.episode_length_minutes && `Episode length: about ${show.episode_length_minutes} minutes`,
+    show.hosts && `Hosts: ${show.hosts}`,
+    show.target_audience && `Target audience: ${show.target_audience}`,
+    show.tone && `Tone: ${show.tone}`,
+    show.recurring_segments.length > 0 && `Recurring segments: ${show.recurring_segments.join("; ")}`,
+    show.banned_topics.length > 0 && `Never cover these topics: ${show.banned_topics.join("; ")}`,
+  ];
+
+  return lines.filter(Boolean).join("\n");
+};
@@ -0,0 +1,56 @@
+import { Message, generateText } from "@/services/geminiService";
+import { buildContextWindow } from "@/services/contextBuilder";
+import { updateConversationSummary } from "@/services/conversationService";
+import { ProviderId } from "@/services/providers";
+
+export interface ConversationContextState {
+  summary: string | null;
+  summaryThroughMessageId: string | null;
+  contextTokenBudget: number;
+}
+
+const SUMMARY_SYSTEM_MESSAGE = `You maintain a running summary of a podcast research and script writing conversation.
+Merge the new turns into the existing summary. Keep facts, names, sources, decisions, episode structure and open questions.
+Drop small talk. Answer with the updated summary only, in at most 250 words.`;
+
+const formatTurns = (messages: Message[]) =>
+  messages
+    .map(msg => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
+    .join("\n\n");
+
+// Folds the turns that have fallen out of the context window into the stored summary.
+// Returns the new state, or null when the summary already covers everything that was dropped.
+export const refreshRollingSummary = async (
+  conversationId: string,
+  history: Message[],
+  state: ConversationContextState,
+  provider?: ProviderId | null,
+  showId?: string | null
+): Promise<ConversationContextState | null> => {
+  const { dropped } = buildContextWindow(history, state.contextTokenBudget);
+  if (dropped.length === 0) return null;
+
+  const lastDropped = dropped[dropped.length - 1];
+  if (lastDropped.id === state.summaryThroughMessageId) return null;
+
+  // If the summary was built on messages that are no longer in the active history
+  // (another version was selected), start again from scratch
+  const coveredIndex = dropped.findIndex(msg => msg.id === state.summaryThroughMessageId);
+  const previousSummary = coveredIndex === -1 ? "" : state.summary ?? "";
+  const newTurns = dropped.slice(coveredIndex + 1);
+
+  console.log("Summarizing", newTurns.length, "turns that left the context window");
+
+  const summary = await generateText(
+    SUMMARY_SYSTEM_MESSAGE,
+    `EXISTING SUMMARY:\n${previousSummary || "(none yet)"}\n\nNEW TURNS:\n${formatTurns(newTurns)}`,
+    { task: "summary", conversationId, showId },
+    { provider }
+  );
+  if (!summary) return null;
+
+  const success = await updateConversationSummary(conversationId, summary, lastDropped.id);
+  if (!success) return null;
+
+  return { ...state, summary, summaryThroughMessageId: lastDropped.id };
+};
@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Message, generateText } from "@/services/geminiService";
+import { ProviderId } from "@/services/providers";
+
+export interface GeneratedTitle {
+  title: string;
+  synopsis: string;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+const TITLE_SYSTEM_MESSAGE = `You name podcast research and script writing conversations for a sidebar.
+Read the opening exchange and answer with a JSON object like {"title": "...", "synopsis": "..."}.
+The title is at most 6 words, in title case, without quotes or a trailing period.
+The synopsis is one sentence of at most 20 words saying what the conversation is about.`;
+
+const parseGeneratedTitle = (reply: string): GeneratedTitle | null => {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(reply.slice(start, end + 1)) as { title?: unknown; synopsis?: unknown };
+    if (typeof parsed.title !== "string" || !parsed.title.trim()) return null;
+    return {
+      title: parsed.title.trim().replace(/^["']|["'.]$/g, "").substring(0, MAX_TITLE_LENGTH),
+      synopsis: typeof parsed.synopsis === "string" ? parsed.synopsis.trim() : ""
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Replaces the placeholder title of a conversation with one generated from its first exchange.
+// Titles the user typed, or that were already generated, are left alone; returns null in that case.
+export const generateConversationTitle = async (
+  conversationId: string,
+  exchange: Message[],
+  provider?: ProviderId | null,
+  showId?: string | null
+): Promise<GeneratedTitle | null> => {
+  try {
+    const transcript = exchange
+      .map(msg => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
+      .join("\n\n");
+
+    const generated = parseGeneratedTitle(await generateText(
+      TITLE_SYSTEM_MESSAGE,
+      transcript,
+      { task: "title", conversationId, showId },
+      { provider }
+    ));
+    if (!generated) return null;
+
+    // The filter makes this a no-op if the user renamed the conversation while the title was generated
+    const { data, error } = await supabase
+      .from("conversations")
+      .update({ title: generated.title, synopsis: generated.synopsis || null, title_source: "generated" })
+      .eq("id", conversationId)
+      .eq("title_source", "placeholder")
+      .select("id");
+
+    if (error) throw error;
+    return data && data.length > 0 ? generated : null;
+  } catch (error) {
+    console.error("Error generating conversation title:", error);
+    return null;
+  }
+};
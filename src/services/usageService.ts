@@ -0,0 +1,237 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { GenerationResult, ProviderId } from "@/services/providers";
+
+// USD per million tokens. Models that are not listed (local Ollama models, the mock provider,
+// custom OpenAI-compatible deployments) are counted as free.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+// What the tokens were spent on: a reply, or one of the background requests made after it
+export type UsageTask = "reply" | "summary" | "memories" | "title";
+
+export const USAGE_TASK_LABELS: Record<UsageTask, string> = {
+  reply: "Replies",
+  summary: "Conversation summaries",
+  memories: "Memory suggestions",
+  title: "Titles",
+};
+
+export interface UsageRecord {
+  id: string;
+  conversation_id: string | null;
+  message_id: string | null;
+  show_id: string | null;
+  task: string;
+  provider: string;
+  model: string | null;
+  prompt_tokens: number;
+  candidate_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  created_at: string;
+  conversation: { title: string } | null;
+  show: { name: string } | null;
+}
+
+export interface UsageBudget {
+  monthly_limit_usd: number;
+  alert_percent: number;
+}
+
+export interface BudgetAlert {
+  level: "warning" | "exceeded";
+  spend: number;
+  limit: number;
+}
+
+export const estimateCost = (model: string | undefined | null, promptTokens: number, candidateTokens: number): number => {
+  const pricing = model ? MODEL_PRICING[model] : undefined;
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + candidateTokens * pricing.output) / 1_000_000;
+};
+
+export const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+const startOfMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+type BudgetAlertListener = (alert: BudgetAlert) => void;
+
+const budgetAlertListeners = new Set<BudgetAlertListener>();
+
+// Called with every budget line a recorded usage crosses, whichever task it was for. Returns the unsubscribe.
+export const onBudgetAlert = (listener: BudgetAlertListener): (() => void) => {
+  budgetAlertListeners.add(listener);
+  return () => {
+    budgetAlertListeners.delete(listener);
+  };
+};
+
+// Record the tokens a reply used; continuations of the same message add another row.
+// Background requests have no message of their own and are recorded under their task.
+// Each insert is checked against the monthly budget.
+export const recordUsage = async ({
+  conversationId,
+  messageId,
+  showId,
+  provider,
+  result,
+  task = "reply",
+}: {
+  conversationId: string;
+  messageId: string | null;
+  showId: string | null;
+  provider: ProviderId;
+  result: GenerationResult;
+  task?: UsageTask;
+}): Promise<number | null> => {
+  const usage = result.usageMetadata;
+  if (!usage) return null;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const promptTokens = usage.promptTokenCount ?? 0;
+    const candidateTokens = usage.candidatesTokenCount ?? 0;
+    const cost = estimateCost(result.model, promptTokens, candidateTokens);
+
+    const { error } = await supabase
+      .from("message_usage")
+      .insert({
+        user_id: user.id,
+        conversation_id: conversationId,
+        message_id: messageId,
+        show_id: showId,
+        provider,
+        model: result.model ?? null,
+        prompt_tokens: promptTokens,
+        candidate_tokens: candidateTokens,
+        total_tokens: usage.totalTokenCount ?? promptTokens + candidateTokens,
+        cost_usd: cost,
+        task,
+      });
+
+    if (error) throw error;
+
+    const alert = await checkBudgetAlert(cost);
+    if (alert) budgetAlertListeners.forEach(listener => listener(alert));
+    return cost;
+  } catch (error) {
+    console.error("Error recording usage:", error);
+    return null;
+  }
+};
+
+// Usage since a date, oldest first, with the conversation title and show name
+export const getUsage = async (since: Date): Promise<UsageRecord[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("message_usage")
+      .select("*, conversation:conversations(title), show:shows(name)")
+      .gte("created_at", since.toISOString())
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map(row => ({ ...row, cost_usd: Number(row.cost_usd) }));
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    toast.error("Failed to load usage");
+    return [];
+  }
+};
+
+export const getMonthlySpend = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from("message_usage")
+    .select("cost_usd")
+    .gte("created_at", startOfMonth().toISOString());
+
+  if (error) {
+    console.error("Error fetching monthly spend:", error);
+    return 0;
+  }
+  return (data ?? []).reduce((sum, row) => sum + Number(row.cost_usd), 0);
+};
+
+export const getUsageBudget = async (): Promise<UsageBudget | null> => {
+  try {
+    const { data, error } = await supabase
+      .from("usage_budgets")
+      .select("monthly_limit_usd, alert_percent")
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { ...data, monthly_limit_usd: Number(data.monthly_limit_usd) } : null;
+  } catch (error) {
+    console.error("Error fetching usage budget:", error);
+    return null;
+  }
+};
+
+export const saveUsageBudget = async (budget: UsageBudget): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to set a budget");
+      return false;
+    }
+
+    const { error } = await supabase
+      .from("usage_budgets")
+      .upsert({ user_id: user.id, ...budget, updated_at: new Date().toISOString() });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error saving usage budget:", error);
+    toast.error("Failed to save budget");
+    return false;
+  }
+};
+
+export const deleteUsageBudget = async (): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from("usage_budgets")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error removing usage budget:", error);
+    toast.error("Failed to remove budget");
+    return false;
+  }
+};
+
+// Reports the budget line a newly recorded cost pushed this month over, if any
+const checkBudgetAlert = async (addedCost: number): Promise<BudgetAlert | null> => {
+  if (addedCost <= 0) return null;
+
+  const budget = await getUsageBudget();
+  if (!budget) return null;
+
+  const spend = await getMonthlySpend();
+  const previous = spend - addedCost;
+  const limit = budget.monthly_limit_usd;
+  const warningLine = limit * budget.alert_percent / 100;
+
+  if (previous < limit && spend >= limit) return { level: "exceeded", spend, limit };
+  if (previous < warningLine && spend >= warningLine) return { level: "warning", spend, limit };
+  return null;
+};
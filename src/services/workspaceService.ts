@@ -0,0 +1,275 @@
+import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/integrations/supabase/functions";
+import { toast } from "sonner";
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export const WORKSPACE_ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: "owner", label: "Owner", description: "Manages members and the workspace" },
+  { value: "editor", label: "Editor", description: "Creates and edits conversations, shows and personas" },
+  { value: "viewer", label: "Viewer", description: "Reads everything, changes nothing" },
+];
+
+// A workspace the current user belongs to, with their role in it
+export interface Workspace {
+  id: string;
+  name: string;
+  created_at: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+  // Only loaded for the invitee's own invitations
+  workspace?: { name: string } | null;
+}
+
+export const canEditWorkspace = (role: WorkspaceRole | null | undefined) => role === "owner" || role === "editor";
+
+export const getWorkspaces = async (): Promise<Workspace[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .select("role, workspace:workspaces(id, name, created_at)")
+      .eq("user_id", user.id);
+
+    if (error) throw error;
+    return (data ?? [])
+      .filter(row => row.workspace)
+      .map(row => ({ ...row.workspace, role: row.role as WorkspaceRole }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error fetching workspaces:", error);
+    toast.error("Failed to load workspaces");
+    return [];
+  }
+};
+
+// Creates the workspace with the current user as its owner
+export const createWorkspace = async (name: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase.rpc("create_workspace", { p_name: name });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    toast.error("Failed to create workspace");
+    return null;
+  }
+};
+
+export const renameWorkspace = async (id: string, name: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("workspaces")
+      .update({ name })
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error renaming workspace:", error);
+    toast.error("Failed to rename workspace");
+    return false;
+  }
+};
+
+// Conversations, shows and personas of the workspace go back to the members who created them
+export const deleteWorkspace = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("workspaces")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting workspace:", error);
+    toast.error("Failed to delete workspace");
+    return false;
+  }
+};
+
+export const getWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .select("*")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map(row => ({ ...row, role: row.role as WorkspaceRole }));
+  } catch (error) {
+    console.error("Error fetching workspace members:", error);
+    toast.error("Failed to load members");
+    return [];
+  }
+};
+
+export const updateMemberRole = async (workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("workspace_members")
+      .update({ role })
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error changing member role:", error);
+    toast.error("Failed to change role. A workspace needs at least one owner.");
+    return false;
+  }
+};
+
+// Also used to leave a workspace, with the current user's id
+export const removeWorkspaceMember = async (workspaceId: string, userId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", workspaceId)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error removing workspace member:", error);
+    toast.error("Failed to remove member. A workspace needs at least one owner.");
+    return false;
+  }
+};
+
+// Pending invitations to a workspace, for its owners
+export const getWorkspaceInvites = async (workspaceId: string): Promise<WorkspaceInvite[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("workspace_invites")
+      .select("id, workspace_id, email, role, created_at")
+      .eq("workspace_id", workspaceId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data ?? []).map(row => ({ ...row, role: row.role as WorkspaceRole }));
+  } catch (error) {
+    console.error("Error fetching workspace invites:", error);
+    toast.error("Failed to load invitations");
+    return [];
+  }
+};
+
+// Emails the invitation with a link that accepts it; send_workspace_invite checks the caller owns the workspace
+export const sendWorkspaceInvite = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase.functions.invoke("send_workspace_invite", { body: { inviteId: id } });
+
+    if (error) {
+      toast.error(await functionErrorMessage(error, "Failed to email the invitation"));
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("Error emailing workspace invite:", error);
+    toast.error("Failed to email the invitation");
+    return false;
+  }
+};
+
+// Records the invitation and emails it. An invitation whose email failed is still returned, so it
+// can be resent; the invitee also finds it in their user menu after signing in.
+export const inviteToWorkspace = async (
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole
+): Promise<(WorkspaceInvite & { emailed: boolean }) | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in to invite members");
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_invites")
+      .insert({ workspace_id: workspaceId, email: email.trim().toLowerCase(), role, invited_by: user.id })
+      .select("id, workspace_id, email, role, created_at")
+      .single();
+
+    if (error) throw error;
+    const invite = { ...data, role: data.role as WorkspaceRole };
+    return { ...invite, emailed: await sendWorkspaceInvite(invite.id) };
+  } catch (error) {
+    console.error("Error inviting workspace member:", error);
+    toast.error("Failed to send invitation. The address may already be invited.");
+    return null;
+  }
+};
+
+// Revokes an invitation, or declines it when called by the invitee
+export const deleteWorkspaceInvite = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from("workspace_invites")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error("Error deleting workspace invite:", error);
+    toast.error("Failed to update invitation");
+    return false;
+  }
+};
+
+// Invitations addressed to the current user's email
+export const getMyInvites = async (): Promise<WorkspaceInvite[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) return [];
+
+    const { data, error } = await supabase
+      .from("workspace_invites")
+      .select("id, workspace_id, email, role, created_at, workspace:workspaces(name)")
+      .eq("email", user.email.toLowerCase());
+
+    if (error) throw error;
+    return (data ?? []).map(row => ({ ...row, role: row.role as WorkspaceRole }));
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return [];
+  }
+};
+
+// Returns the id of the workspace joined
+export const acceptWorkspaceInvite = async (id: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase.rpc("accept_workspace_invite", { p_invite_id: id });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    toast.error("Failed to accept invitation");
+    return null;
+  }
+};
@@ -0,0 +1,44 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decryptSecret } from "./crypto.ts";
+
+export type KeyProvider = "gemini" | "openai";
+
+export const KEY_PROVIDERS: KeyProvider[] = ["gemini", "openai"];
+
+// The caller's default key for a provider, decrypted, or null when they have not stored one
+export const getUserDefaultKey = async (
+  admin: SupabaseClient,
+  userId: string,
+  provider: KeyProvider,
+): Promise<string | null> => {
+  const { data, error } = await admin
+    .from("user_api_keys")
+    .select("encrypted_key")
+    .eq("user_id", userId)
+    .eq("provider", provider)
+    .eq("is_default", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error reading the default ${provider} key:`, error);
+    return null;
+  }
+  return data ? decryptSecret(data.encrypted_key) : null;
+};
+
+// The GEMINI_API_KEY secret, or the shared default key stored in api_keys
+export const getSharedGeminiKey = async (admin: SupabaseClient): Promise<string | null> => {
+  const secret = Deno.env.get("GEMINI_API_KEY");
+  if (secret) return secret;
+
+  const { data, error } = await admin
+    .from("api_keys")
+    .select("api_key")
+    .eq("service_name", "gemini")
+    .eq("is_default", true)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) console.error("Error reading the default Gemini key:", error);
+  return data?.api_key ?? null;
+};
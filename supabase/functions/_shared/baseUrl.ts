@@ -0,0 +1,79 @@
+// OpenAI-compatible base URLs come from the caller, and the edge functions send the caller's
+// decrypted key to them. Only public https hosts are allowed, so the functions cannot be used to
+// reach loopback, link-local or private addresses on our side.
+
+// Suffixes that only resolve inside a network
+const INTERNAL_SUFFIXES = [".localhost", ".local", ".localdomain", ".internal", ".intranet", ".lan", ".home.arpa"];
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+// The URL parser normalizes every IPv4 form (decimal, hex, octal) to dotted quads and wraps IPv6 in brackets
+const isIpLiteral = (hostname: string) => IPV4_PATTERN.test(hostname) || hostname.startsWith("[");
+
+export const isPublicHostname = (hostname: string) => {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (!host || isIpLiteral(host)) return false;
+  // Single-label names like localhost or metadata are resolved through the local search domains
+  if (!host.includes(".")) return false;
+  return !INTERNAL_SUFFIXES.some(suffix => host.endsWith(suffix));
+};
+
+const ipv4ToNumber = (address: string) =>
+  address.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+
+// Unspecified, private, shared (CGNAT), loopback, link-local, benchmark, multicast and reserved ranges
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+// Whether a resolved address is anything but a public unicast address
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, "");
+  if (IPV4_PATTERN.test(ip)) {
+    const value = ipv4ToNumber(ip);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+  }
+
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = ip.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff") || ip.startsWith("::ffff:");
+};
+
+// The base URL without its trailing slash, or null unless it is https on a public host name
+export const parseBaseUrl = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" || url.username || url.password || !isPublicHostname(url.hostname)) return null;
+    return url.href.replace(/\/$/, "");
+  } catch {
+    return null;
+  }
+};
+
+// Checked again right before each call: a public name can still resolve to a private address
+export const resolvePublicBaseUrl = async (value: unknown): Promise<string | null> => {
+  const baseUrl = parseBaseUrl(value);
+  if (!baseUrl) return null;
+
+  const { hostname } = new URL(baseUrl);
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, "A"), Deno.resolveDns(hostname, "AAAA")]);
+  const addresses = lookups.flatMap(lookup => lookup.status === "fulfilled" ? lookup.value : []);
+  return addresses.length > 0 && !addresses.some(isPrivateAddress) ? baseUrl : null;
+};
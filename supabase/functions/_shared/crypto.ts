@@ -0,0 +1,42 @@
+// AES-GCM encryption for stored API keys.
+// API_KEY_ENCRYPTION_KEY is a base64-encoded 32-byte key, e.g. `openssl rand -base64 32`.
+const IV_LENGTH = 12;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+const getKey = (): Promise<CryptoKey> => {
+  if (!cachedKey) {
+    const secret = Deno.env.get("API_KEY_ENCRYPTION_KEY");
+    if (!secret) throw new Error("API_KEY_ENCRYPTION_KEY is not set");
+    cachedKey = crypto.subtle.importKey("raw", fromBase64(secret), "AES-GCM", false, ["encrypt", "decrypt"]);
+  }
+  return cachedKey;
+};
+
+// Returns base64 of the random IV followed by the ciphertext
+export const encryptSecret = async (plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getKey(),
+    new TextEncoder().encode(plaintext),
+  );
+
+  const combined = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(combined);
+};
+
+export const decryptSecret = async (encrypted: string): Promise<string> => {
+  const combined = fromBase64(encrypted);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: combined.slice(0, IV_LENGTH) },
+    await getKey(),
+    combined.slice(IV_LENGTH),
+  );
+  return new TextDecoder().decode(plaintext);
+};
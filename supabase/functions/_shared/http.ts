@@ -0,0 +1,27 @@
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "retry-after",
+};
+
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+  });
+
+// Errors use the same { error: { message } } shape as the Gemini and OpenAI APIs
+export const errorResponse = (status: number, message: string, headers: Record<string, string> = {}) =>
+  jsonResponse(status, { error: { message } }, headers);
+
+export const createAdminClient = (): SupabaseClient =>
+  createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+// verify_jwt has already rejected missing or forged tokens; this resolves who is calling
+export const getCaller = async (req: Request, admin: SupabaseClient): Promise<User | null> => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  const { data: { user }, error } = await admin.auth.getUser(token);
+  return error ? null : user;
+};
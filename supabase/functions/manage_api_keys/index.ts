@@ -0,0 +1,145 @@
+// Adds and tests the caller's vault keys. Keys are encrypted here before they are stored, and the
+// browser never reads them back; listing, choosing the default and revoking go through RLS instead.
+import { corsHeaders, createAdminClient, errorResponse, getCaller, jsonResponse } from "../_shared/http.ts";
+import { encryptSecret, decryptSecret } from "../_shared/crypto.ts";
+import { KEY_PROVIDERS, KeyProvider } from "../_shared/apiKeys.ts";
+import { resolvePublicBaseUrl } from "../_shared/baseUrl.ts";
+
+const PUBLIC_COLUMNS = "id, user_id, provider, label, key_hint, is_default, last_tested_at, last_test_ok, created_at";
+const MAX_LABEL_LENGTH = 100;
+
+// A cheap authenticated call per provider: listing models needs a valid key and costs no tokens
+const validateKey = async (provider: KeyProvider, apiKey: string, baseUrl: string | null) => {
+  if (provider === "gemini") {
+    return fetch("https://generativelanguage.googleapis.com/v1beta/models?pageSize=1", {
+      headers: { "x-goog-api-key": apiKey },
+    });
+  }
+  return fetch(`${baseUrl}/models`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+    // A redirect could lead the key to a host that was never checked
+    redirect: "error",
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse(405, "Method not allowed");
+  }
+
+  const admin = createAdminClient();
+  const user = await getCaller(req, admin);
+  if (!user) {
+    return errorResponse(401, "You must be signed in to manage API keys");
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, "The request body must be JSON");
+  }
+
+  if (body.action === "create") {
+    const { provider, label, apiKey, makeDefault } = body;
+    if (!KEY_PROVIDERS.includes(provider as KeyProvider)) {
+      return errorResponse(400, "Unsupported provider");
+    }
+    if (typeof label !== "string" || !label.trim() || label.length > MAX_LABEL_LENGTH) {
+      return errorResponse(400, "A label of at most 100 characters is required");
+    }
+    if (typeof apiKey !== "string" || apiKey.trim().length < 8) {
+      return errorResponse(400, "The API key looks too short");
+    }
+
+    const { count, error: countError } = await admin
+      .from("user_api_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .eq("provider", provider);
+    if (countError) {
+      console.error("Error counting API keys:", countError);
+      return errorResponse(500, "Could not save the API key");
+    }
+
+    // The first key of a provider always becomes the default
+    const isDefault = makeDefault === true || count === 0;
+    if (isDefault) {
+      const { error } = await admin
+        .from("user_api_keys")
+        .update({ is_default: false })
+        .eq("user_id", user.id)
+        .eq("provider", provider);
+      if (error) {
+        console.error("Error clearing the default API key:", error);
+        return errorResponse(500, "Could not save the API key");
+      }
+    }
+
+    const trimmedKey = apiKey.trim();
+    const { data, error } = await admin
+      .from("user_api_keys")
+      .insert({
+        user_id: user.id,
+        provider,
+        label: label.trim(),
+        encrypted_key: await encryptSecret(trimmedKey),
+        key_hint: trimmedKey.slice(-4),
+        is_default: isDefault,
+      })
+      .select(PUBLIC_COLUMNS)
+      .single();
+    if (error) {
+      console.error("Error saving the API key:", error);
+      return errorResponse(500, "Could not save the API key");
+    }
+    return jsonResponse(200, { key: data });
+  }
+
+  if (body.action === "test") {
+    if (typeof body.id !== "string") {
+      return errorResponse(400, "Expected the id of the key to test");
+    }
+
+    const { data: stored, error } = await admin
+      .from("user_api_keys")
+      .select("provider, encrypted_key")
+      .eq("id", body.id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (error || !stored) {
+      return errorResponse(404, "API key not found");
+    }
+
+    const baseUrl = stored.provider === "openai" ? await resolvePublicBaseUrl(body.baseUrl) : null;
+    if (stored.provider === "openai" && !baseUrl) {
+      return errorResponse(400, "Expected an https base URL on a public host to test the key against");
+    }
+
+    let response: Response;
+    try {
+      response = await validateKey(stored.provider, await decryptSecret(stored.encrypted_key), baseUrl);
+      await response.body?.cancel();
+    } catch (validationError) {
+      // An unreachable provider says nothing about the key, so the last result is kept
+      console.error("Error validating the API key:", validationError);
+      return jsonResponse(200, { ok: false, message: "Could not reach the provider" });
+    }
+
+    const ok = response.ok;
+    const message = ok ? "The key works" : `The provider rejected the key (${response.status})`;
+
+    const { data: updated } = await admin
+      .from("user_api_keys")
+      .update({ last_tested_at: new Date().toISOString(), last_test_ok: ok })
+      .eq("id", body.id)
+      .select(PUBLIC_COLUMNS)
+      .single();
+    return jsonResponse(200, { ok, message, key: updated });
+  }
+
+  return errorResponse(400, "Unknown action");
+});
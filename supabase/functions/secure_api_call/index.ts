@@ -0,0 +1,114 @@
+// Proxies streaming chat requests for signed-in users, so API keys never reach the browser.
+// Gemini uses the caller's default vault key, falling back to the shared server key; OpenAI-compatible
+// endpoints need a vault key. Every user gets RATE_LIMIT_PER_MINUTE requests a minute for replies;
+// background requests (summaries, memory proposals, titles) have their own
+// BACKGROUND_RATE_LIMIT_PER_MINUTE so they cannot use those up.
+import { corsHeaders, createAdminClient, errorResponse, getCaller } from "../_shared/http.ts";
+import { getSharedGeminiKey, getUserDefaultKey } from "../_shared/apiKeys.ts";
+import { resolvePublicBaseUrl } from "../_shared/baseUrl.ts";
+
+const RATE_LIMIT_PER_MINUTE = Number(Deno.env.get("RATE_LIMIT_PER_MINUTE") ?? "20");
+const BACKGROUND_RATE_LIMIT_PER_MINUTE = Number(Deno.env.get("BACKGROUND_RATE_LIMIT_PER_MINUTE") ?? "20");
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+// Only Gemini model ids, so the value cannot redirect the request to another path
+const MODEL_PATTERN = /^gemini-[a-z0-9.-]+$/;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse(405, "Method not allowed");
+  }
+
+  const admin = createAdminClient();
+  const user = await getCaller(req, admin);
+  if (!user) {
+    return errorResponse(401, "You must be signed in to send messages");
+  }
+
+  let body: { provider?: unknown; model?: unknown; baseUrl?: unknown; request?: unknown; background?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, "The request body must be JSON");
+  }
+  const { provider = "gemini", model, request } = body;
+  if (!request || typeof request !== "object") {
+    return errorResponse(400, "Expected a request object");
+  }
+
+  const background = body.background === true;
+  const maxRequests = background ? BACKGROUND_RATE_LIMIT_PER_MINUTE : RATE_LIMIT_PER_MINUTE;
+  const { data: retryAfter, error: limitError } = await admin.rpc("consume_rate_limit", {
+    p_user_id: user.id,
+    p_bucket: background ? "background" : "interactive",
+    p_max_requests: maxRequests,
+    p_window_seconds: 60,
+  });
+  if (limitError) {
+    console.error("Error checking the rate limit:", limitError);
+    return errorResponse(500, "Could not check the rate limit");
+  }
+  if (retryAfter > 0) {
+    const kind = background ? "background requests" : "requests";
+    return errorResponse(429, `Rate limit of ${maxRequests} ${kind} per minute reached`, {
+      "Retry-After": String(retryAfter),
+    });
+  }
+
+  let upstreamUrl: string;
+  let headers: Record<string, string>;
+
+  if (provider === "gemini") {
+    if (typeof model !== "string" || !MODEL_PATTERN.test(model)) {
+      return errorResponse(400, "Expected { model, request } with a Gemini model id");
+    }
+    const apiKey = await getUserDefaultKey(admin, user.id, "gemini") ?? await getSharedGeminiKey(admin);
+    if (!apiKey) {
+      return errorResponse(412, "No Gemini API key is configured. Add one in your API keys.");
+    }
+    upstreamUrl = `${GEMINI_API_URL}/${model}:streamGenerateContent?alt=sse`;
+    // The key goes in a header, never in the URL, so it cannot end up in request logs
+    headers = { "x-goog-api-key": apiKey };
+  } else if (provider === "openai") {
+    const baseUrl = await resolvePublicBaseUrl(body.baseUrl);
+    if (!baseUrl) {
+      return errorResponse(400, "Expected an https base URL on a public host for the OpenAI-compatible endpoint");
+    }
+    const apiKey = await getUserDefaultKey(admin, user.id, "openai");
+    if (!apiKey) {
+      return errorResponse(412, "No OpenAI-compatible API key is configured. Add one in your API keys.");
+    }
+    upstreamUrl = `${baseUrl}/chat/completions`;
+    headers = { Authorization: `Bearer ${apiKey}` };
+  } else {
+    return errorResponse(400, "Unsupported provider");
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(upstreamUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(request),
+      signal: req.signal,
+      // A redirect could lead the key to a host that was never checked
+      redirect: "error",
+    });
+  } catch (error) {
+    console.error(`Error reaching the ${provider} API:`, error);
+    return errorResponse(502, `Could not reach the ${provider} API`);
+  }
+
+  // Errors keep the upstream status and Retry-After so the client can tell quota, key and server errors apart
+  const responseHeaders: Record<string, string> = {
+    ...corsHeaders,
+    "Content-Type": upstream.headers.get("Content-Type") ?? "text/event-stream",
+  };
+  const upstreamRetryAfter = upstream.headers.get("Retry-After");
+  if (upstreamRetryAfter) responseHeaders["Retry-After"] = upstreamRetryAfter;
+
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+});
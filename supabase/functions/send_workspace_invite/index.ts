@@ -0,0 +1,75 @@
+// Emails a pending workspace invitation through Supabase Auth. New addresses get an invite to sign
+// up, existing accounts a sign-in link; both open the app at /?invite=<id>, which accepts it.
+// APP_URL sets where the link points; without it the caller's origin is used. Either has to be in
+// the project's allowed redirect URLs.
+import { corsHeaders, createAdminClient, errorResponse, getCaller, jsonResponse } from "../_shared/http.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return errorResponse(405, "Method not allowed");
+  }
+
+  const admin = createAdminClient();
+  const user = await getCaller(req, admin);
+  if (!user) {
+    return errorResponse(401, "You must be signed in to send invitations");
+  }
+
+  let body: { inviteId?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, "The request body must be JSON");
+  }
+  if (typeof body.inviteId !== "string") {
+    return errorResponse(400, "Expected the id of the invitation to send");
+  }
+
+  const { data: invite, error } = await admin
+    .from("workspace_invites")
+    .select("id, workspace_id, email, role, workspace:workspaces(name)")
+    .eq("id", body.inviteId)
+    .maybeSingle();
+  if (error || !invite) {
+    return errorResponse(404, "Invitation not found");
+  }
+
+  // Only owners of the workspace may email its invitations
+  const { data: membership } = await admin
+    .from("workspace_members")
+    .select("role")
+    .eq("workspace_id", invite.workspace_id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (membership?.role !== "owner") {
+    return errorResponse(403, "Only workspace owners can send invitations");
+  }
+
+  const appUrl = (Deno.env.get("APP_URL") ?? req.headers.get("origin") ?? "").replace(/\/$/, "");
+  if (!appUrl) {
+    return errorResponse(500, "APP_URL is not configured");
+  }
+  const redirectTo = `${appUrl}/?invite=${invite.id}`;
+  const workspaceName = (invite.workspace as { name: string } | null)?.name ?? "a workspace";
+
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(invite.email, {
+    redirectTo,
+    data: { workspace_name: workspaceName, workspace_role: invite.role },
+  });
+  if (inviteError) {
+    // The address already has an account, so it gets a sign-in link to the same page instead
+    const { error: linkError } = await admin.auth.signInWithOtp({
+      email: invite.email,
+      options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+    });
+    if (linkError) {
+      console.error("Error emailing the workspace invitation:", inviteError, linkError);
+      return errorResponse(502, "Could not send the invitation email");
+    }
+  }
+
+  return jsonResponse(200, { sent: true });
+});
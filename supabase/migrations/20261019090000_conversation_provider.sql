@@ -0,0 +1,3 @@
+-- Remember which LLM provider each conversation talks to
+alter table public.conversations
+  add column provider text not null default 'gemini';
@@ -0,0 +1,4 @@
+-- Mark replies that were cut short by the user's Stop button
+alter table public.messages
+  add column status text not null default 'complete'
+  check (status in ('complete', 'stopped'));
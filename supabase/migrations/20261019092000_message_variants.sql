@@ -0,0 +1,16 @@
+-- Messages form a tree: a message's parent is the message it answers (or follows).
+-- Siblings under the same parent are alternate versions; the active one is shown and sent to the model.
+alter table public.messages
+  add column parent_id uuid references public.messages(id) on delete cascade,
+  add column is_active boolean not null default true;
+
+-- Existing conversations are linear: chain each message to the one before it
+update public.messages m
+set parent_id = ordered.previous_id
+from (
+  select id, lag(id) over (partition by conversation_id order by "timestamp") as previous_id
+  from public.messages
+) ordered
+where m.id = ordered.id;
+
+create index messages_parent_id_idx on public.messages (parent_id);
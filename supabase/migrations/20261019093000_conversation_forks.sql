@@ -0,0 +1,6 @@
+-- A fork copies the active history of another conversation up to one of its messages
+alter table public.conversations
+  add column parent_conversation_id uuid references public.conversations(id) on delete set null,
+  add column forked_from_message_id uuid references public.messages(id) on delete set null;
+
+create index conversations_parent_conversation_id_idx on public.conversations (parent_conversation_id);
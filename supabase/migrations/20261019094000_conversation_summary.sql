@@ -0,0 +1,5 @@
+-- Rolling summary of the turns that no longer fit in the context window
+alter table public.conversations
+  add column summary text,
+  add column summary_through_message_id uuid references public.messages(id) on delete set null,
+  add column context_token_budget integer not null default 8000 check (context_token_budget > 0);
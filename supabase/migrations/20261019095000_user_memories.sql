@@ -0,0 +1,32 @@
+-- Durable facts about the user's podcast work, proposed by the model and curated by the user
+create table public.user_memories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  category text not null check (category in ('show_name', 'format', 'audience', 'hosts', 'tone', 'topic', 'other')),
+  content text not null,
+  pinned boolean not null default false,
+  status text not null default 'proposed' check (status in ('proposed', 'active')),
+  source_conversation_id uuid references public.conversations(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index user_memories_user_id_idx on public.user_memories (user_id);
+
+alter table public.user_memories enable row level security;
+
+create policy "Users can view their own memories"
+  on public.user_memories for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own memories"
+  on public.user_memories for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own memories"
+  on public.user_memories for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own memories"
+  on public.user_memories for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,41 @@
+-- Show profiles that condition every conversation attached to them
+create table public.shows (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  format text,
+  episode_length_minutes integer check (episode_length_minutes > 0),
+  hosts text,
+  target_audience text,
+  tone text,
+  recurring_segments text[] not null default '{}',
+  banned_topics text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index shows_user_id_idx on public.shows (user_id);
+
+alter table public.shows enable row level security;
+
+create policy "Users can view their own shows"
+  on public.shows for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own shows"
+  on public.shows for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own shows"
+  on public.shows for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own shows"
+  on public.shows for delete
+  using (auth.uid() = user_id);
+
+alter table public.conversations
+  add column show_id uuid references public.shows(id) on delete set null;
+
+create index conversations_show_id_idx on public.conversations (show_id);
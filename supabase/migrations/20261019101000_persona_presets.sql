@@ -0,0 +1,59 @@
+-- Saved system prompts. Every edit adds a version so a conversation can replay the exact prompt it used.
+create table public.persona_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  current_version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.persona_preset_versions (
+  id uuid primary key default gen_random_uuid(),
+  preset_id uuid not null references public.persona_presets(id) on delete cascade,
+  version integer not null,
+  system_prompt text not null,
+  created_at timestamptz not null default now(),
+  unique (preset_id, version)
+);
+
+create index persona_presets_user_id_idx on public.persona_presets (user_id);
+
+alter table public.persona_presets enable row level security;
+alter table public.persona_preset_versions enable row level security;
+
+create policy "Users can view their own persona presets"
+  on public.persona_presets for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own persona presets"
+  on public.persona_presets for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own persona presets"
+  on public.persona_presets for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own persona presets"
+  on public.persona_presets for delete
+  using (auth.uid() = user_id);
+
+-- Versions are append-only: they can be read and added, never changed
+create policy "Users can view versions of their persona presets"
+  on public.persona_preset_versions for select
+  using (exists (
+    select 1 from public.persona_presets p
+    where p.id = preset_id and p.user_id = auth.uid()
+  ));
+
+create policy "Users can add versions to their persona presets"
+  on public.persona_preset_versions for insert
+  with check (exists (
+    select 1 from public.persona_presets p
+    where p.id = preset_id and p.user_id = auth.uid()
+  ));
+
+alter table public.conversations
+  add column persona_preset_id uuid references public.persona_presets(id) on delete set null,
+  add column persona_version integer;
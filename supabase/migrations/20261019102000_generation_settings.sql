@@ -0,0 +1,3 @@
+-- Model and sampling options per conversation; missing keys fall back to the client defaults
+alter table public.conversations
+  add column generation_settings jsonb not null default '{}'::jsonb;
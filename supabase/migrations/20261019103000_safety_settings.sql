@@ -0,0 +1,7 @@
+-- Per-show Gemini safety thresholds, keyed by harm category; missing categories use the default
+alter table public.shows
+  add column safety_settings jsonb not null default '{}'::jsonb;
+
+-- Block reason and safety ratings of replies the provider withheld
+alter table public.messages
+  add column safety_feedback jsonb;
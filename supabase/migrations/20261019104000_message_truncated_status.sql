@@ -0,0 +1,4 @@
+-- Replies that ended on the provider's output token limit and can be continued
+alter table public.messages
+  drop constraint messages_status_check,
+  add constraint messages_status_check check (status in ('complete', 'stopped', 'truncated'));
@@ -0,0 +1,56 @@
+-- Gemini requests now go through the secure_api_call edge function, which reads keys with the
+-- service role. Stop exposing the shared keys to the browser.
+drop view if exists public.default_api_keys;
+
+alter table public.api_keys enable row level security;
+-- No policies: only the service role can read api_keys
+
+-- Fixed-window request counter per user, maintained by consume_rate_limit
+create table public.api_rate_limits (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  window_start timestamptz not null default now(),
+  request_count integer not null default 0
+);
+
+alter table public.api_rate_limits enable row level security;
+-- No policies: only the edge function, through consume_rate_limit, touches this table
+
+-- Counts one request for the user. Returns 0 when it is allowed, otherwise the number of
+-- seconds until the current window ends.
+create or replace function public.consume_rate_limit(
+  p_user_id uuid,
+  p_max_requests integer,
+  p_window_seconds integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_window_start timestamptz;
+  v_request_count integer;
+begin
+  insert into public.api_rate_limits as limits (user_id, window_start, request_count)
+  values (p_user_id, now(), 1)
+  on conflict (user_id) do update
+    set window_start = case
+          when limits.window_start <= now() - make_interval(secs => p_window_seconds) then now()
+          else limits.window_start
+        end,
+        request_count = case
+          when limits.window_start <= now() - make_interval(secs => p_window_seconds) then 1
+          else limits.request_count + 1
+        end
+  returning window_start, request_count into v_window_start, v_request_count;
+
+  if v_request_count <= p_max_requests then
+    return 0;
+  end if;
+
+  return greatest(1, ceil(extract(epoch from
+    v_window_start + make_interval(secs => p_window_seconds) - now()))::integer);
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(uuid, integer, integer) from public, anon, authenticated;
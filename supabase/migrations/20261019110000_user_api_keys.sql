@@ -0,0 +1,44 @@
+-- Per-user API keys. The key is encrypted by the manage_api_keys edge function (AES-GCM with the
+-- API_KEY_ENCRYPTION_KEY secret) and only ever decrypted there and in secure_api_call.
+create table public.user_api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  provider text not null check (provider in ('gemini', 'openai')),
+  label text not null,
+  -- base64 of the 12-byte IV followed by the ciphertext
+  encrypted_key text not null,
+  -- Last four characters, to tell keys apart in the list
+  key_hint text not null,
+  is_default boolean not null default false,
+  last_tested_at timestamptz,
+  last_test_ok boolean,
+  created_at timestamptz not null default now()
+);
+
+create index user_api_keys_user_id_idx on public.user_api_keys (user_id);
+
+-- At most one default key per provider
+create unique index user_api_keys_default_idx
+  on public.user_api_keys (user_id, provider)
+  where is_default;
+
+alter table public.user_api_keys enable row level security;
+
+create policy "Users can view their own API keys"
+  on public.user_api_keys for select
+  using (auth.uid() = user_id);
+
+create policy "Users can update their own API keys"
+  on public.user_api_keys for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own API keys"
+  on public.user_api_keys for delete
+  using (auth.uid() = user_id);
+
+-- Keys are only added through manage_api_keys, which encrypts them with the service role.
+-- The ciphertext is never readable from the browser, and only the default flag can be changed there.
+revoke insert, select, update on public.user_api_keys from anon, authenticated;
+grant select (id, user_id, provider, label, key_hint, is_default, last_tested_at, last_test_ok, created_at)
+  on public.user_api_keys to authenticated;
+grant update (is_default) on public.user_api_keys to authenticated;
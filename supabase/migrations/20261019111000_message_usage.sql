@@ -0,0 +1,55 @@
+-- Token usage of every assistant reply, priced with the model's rates when it is recorded.
+-- Conversations, messages and shows can be deleted without losing the spend history.
+create table public.message_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid references public.conversations(id) on delete set null,
+  message_id uuid references public.messages(id) on delete set null,
+  show_id uuid references public.shows(id) on delete set null,
+  provider text not null,
+  model text,
+  prompt_tokens integer not null default 0,
+  candidate_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index message_usage_user_id_created_at_idx on public.message_usage (user_id, created_at);
+
+alter table public.message_usage enable row level security;
+
+-- Usage is append-only: it can be read and recorded, never changed
+create policy "Users can view their own usage"
+  on public.message_usage for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own usage"
+  on public.message_usage for insert
+  with check (auth.uid() = user_id);
+
+-- One monthly budget per user; an alert is shown when spend crosses alert_percent and the limit
+create table public.usage_budgets (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  monthly_limit_usd numeric(10, 2) not null check (monthly_limit_usd > 0),
+  alert_percent integer not null default 80 check (alert_percent between 1 and 100),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.usage_budgets enable row level security;
+
+create policy "Users can view their own usage budget"
+  on public.usage_budgets for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own usage budget"
+  on public.usage_budgets for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own usage budget"
+  on public.usage_budgets for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own usage budget"
+  on public.usage_budgets for delete
+  using (auth.uid() = user_id);
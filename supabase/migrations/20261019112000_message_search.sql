@@ -0,0 +1,45 @@
+-- Full-text search over message content
+alter table public.messages
+  add column content_tsv tsvector generated always as (to_tsvector('english', content)) stored;
+
+create index messages_content_tsv_idx on public.messages using gin (content_tsv);
+
+-- Ranked matches in the caller's conversations, including inactive versions of a message.
+-- Matched words in the snippet are wrapped in chr(2) ... chr(3), which cannot clash with markdown or
+-- HTML in the message, so the client can highlight them without rendering the snippet as markup.
+create or replace function public.search_messages(p_query text, p_limit integer default 30)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  snippet text,
+  "timestamp" timestamptz,
+  rank real
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      q.query,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "'
+    ),
+    m."timestamp",
+    ts_rank(m.content_tsv, q.query)
+  from websearch_to_tsquery('english', p_query) as q(query)
+  join public.messages m on m.content_tsv @@ q.query
+  join public.conversations c on c.id = m.conversation_id
+  where c.user_id = auth.uid()
+  order by ts_rank(m.content_tsv, q.query) desc, m."timestamp" desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+grant execute on function public.search_messages(text, integer) to authenticated;
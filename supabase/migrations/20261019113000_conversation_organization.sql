@@ -0,0 +1,39 @@
+-- Nestable folders for conversations. Deleting a folder deletes its subfolders;
+-- the conversations inside move back to the top level.
+create table public.conversation_folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  parent_id uuid references public.conversation_folders(id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  check (parent_id is distinct from id)
+);
+
+create index conversation_folders_user_id_idx on public.conversation_folders (user_id);
+
+alter table public.conversation_folders enable row level security;
+
+create policy "Users can view their own conversation folders"
+  on public.conversation_folders for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own conversation folders"
+  on public.conversation_folders for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own conversation folders"
+  on public.conversation_folders for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own conversation folders"
+  on public.conversation_folders for delete
+  using (auth.uid() = user_id);
+
+alter table public.conversations
+  add column folder_id uuid references public.conversation_folders(id) on delete set null,
+  add column tags text[] not null default '{}',
+  add column pinned boolean not null default false,
+  add column archived_at timestamptz;
+
+create index conversations_folder_id_idx on public.conversations (folder_id);
+create index conversations_tags_idx on public.conversations using gin (tags);
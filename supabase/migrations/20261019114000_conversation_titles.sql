@@ -0,0 +1,6 @@
+-- Where a conversation's title came from. Generated titles replace placeholders after the first
+-- exchange; a title the user typed is 'manual' and is never replaced automatically.
+alter table public.conversations
+  add column title_source text not null default 'placeholder'
+    check (title_source in ('placeholder', 'generated', 'manual')),
+  add column synopsis text;
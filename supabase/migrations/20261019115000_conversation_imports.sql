@@ -0,0 +1,11 @@
+-- Where an imported conversation came from, so importing the same archive twice skips what is
+-- already there. import_source is 'chatgpt' or 'podcastgpt' (our own JSON export).
+alter table public.conversations
+  add column import_source text check (import_source in ('chatgpt', 'podcastgpt')),
+  add column import_source_id text,
+  add constraint conversations_import_source_id_check
+    check ((import_source is null) = (import_source_id is null));
+
+create unique index conversations_import_source_idx
+  on public.conversations (user_id, import_source, import_source_id)
+  where import_source_id is not null;
@@ -0,0 +1,92 @@
+-- Public read-only links to a conversation. Whoever has the token can read the conversation and
+-- its messages until the link expires or its owner revokes it (deletes the row).
+create table public.conversation_shares (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  -- 64 hex characters from two random UUIDs
+  token text not null unique
+    default replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index conversation_shares_conversation_id_idx on public.conversation_shares (conversation_id);
+
+alter table public.conversation_shares enable row level security;
+
+create policy "Users can view their own conversation shares"
+  on public.conversation_shares for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own conversation shares"
+  on public.conversation_shares for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.conversations c where c.id = conversation_id and c.user_id = auth.uid())
+  );
+
+create policy "Users can update their own conversation shares"
+  on public.conversation_shares for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own conversation shares"
+  on public.conversation_shares for delete
+  using (auth.uid() = user_id);
+
+-- The share page sends its token in the x-share-token request header; PostgREST exposes
+-- request headers to policies through the request.headers setting
+create or replace function public.request_share_token()
+returns text
+language sql
+stable
+as $$
+  select nullif(current_setting('request.headers', true)::json ->> 'x-share-token', '');
+$$;
+
+-- Whether the current request carries a live share link for the conversation. Security definer so
+-- the check does not depend on the caller being able to read conversation_shares.
+create or replace function public.is_shared_conversation(p_conversation_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.conversation_shares s
+    where s.conversation_id = p_conversation_id
+      and s.token = public.request_share_token()
+      and (s.expires_at is null or s.expires_at > now())
+  );
+$$;
+
+grant execute on function public.request_share_token() to anon, authenticated;
+grant execute on function public.is_shared_conversation(uuid) to anon, authenticated;
+
+create policy "Anyone with a share link can view the share"
+  on public.conversation_shares for select
+  to anon, authenticated
+  using (token = public.request_share_token() and (expires_at is null or expires_at > now()));
+
+create policy "Anyone with a share link can view the shared conversation"
+  on public.conversations for select
+  to anon, authenticated
+  using (public.is_shared_conversation(id));
+
+create policy "Anyone with a share link can view the shared messages"
+  on public.messages for select
+  to anon, authenticated
+  using (public.is_shared_conversation(conversation_id));
+
+-- Signed-out visitors only get the columns the share page shows
+revoke select on public.conversation_shares from anon;
+grant select (conversation_id, token, expires_at) on public.conversation_shares to anon;
+
+revoke select on public.conversations from anon;
+grant select (id, title, synopsis, created_at, updated_at) on public.conversations to anon;
+
+revoke select on public.messages from anon;
+grant select (id, conversation_id, parent_id, is_active, role, content, status, safety_feedback, "timestamp")
+  on public.messages to anon;
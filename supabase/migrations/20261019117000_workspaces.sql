@@ -0,0 +1,450 @@
+-- Team workspaces. Conversations, shows and persona presets with a workspace_id belong to the
+-- workspace instead of only to the person who created them; workspace_id null is the personal space.
+-- Roles: owners manage members, invites and the workspace itself; editors create and change the
+-- workspace's content; viewers can only read it.
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Copied from the member's account when they join, so members can see who is who
+  email text not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Pending invitations. The invitee sees them after signing in with the invited address and
+-- accepting one (accept_workspace_invite) turns it into a membership.
+create table public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  email text not null check (email = lower(email)),
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (workspace_id, email)
+);
+
+-- RLS helpers. Security definer so policies on workspace_members can use them without recursing.
+create or replace function public.workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members
+  where workspace_id = p_workspace_id and user_id = auth.uid();
+$$;
+
+create or replace function public.is_workspace_member(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select public.workspace_role(p_workspace_id) is not null;
+$$;
+
+create or replace function public.can_edit_workspace(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(public.workspace_role(p_workspace_id) in ('owner', 'editor'), false);
+$$;
+
+create or replace function public.is_workspace_owner(p_workspace_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(public.workspace_role(p_workspace_id) = 'owner', false);
+$$;
+
+-- The workspace a conversation belongs to, for the message policies
+create or replace function public.conversation_workspace_id(p_conversation_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select workspace_id from public.conversations where id = p_conversation_id;
+$$;
+
+create or replace function public.current_user_email()
+returns text
+language sql
+stable
+as $$
+  select lower(auth.jwt() ->> 'email');
+$$;
+
+grant execute on function public.workspace_role(uuid) to anon, authenticated;
+grant execute on function public.is_workspace_member(uuid) to anon, authenticated;
+grant execute on function public.can_edit_workspace(uuid) to authenticated;
+grant execute on function public.is_workspace_owner(uuid) to authenticated;
+grant execute on function public.conversation_workspace_id(uuid) to anon, authenticated;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+
+-- Workspaces are created through create_workspace, which also adds the creator as owner
+create policy "Members can view their workspaces"
+  on public.workspaces for select
+  using (
+    public.is_workspace_member(id)
+    or exists (
+      select 1 from public.workspace_invites i
+      where i.workspace_id = id and i.email = public.current_user_email()
+    )
+  );
+
+create policy "Owners can update their workspaces"
+  on public.workspaces for update
+  using (public.is_workspace_owner(id));
+
+create policy "Owners can delete their workspaces"
+  on public.workspaces for delete
+  using (public.is_workspace_owner(id));
+
+-- Members join through accept_workspace_invite
+create policy "Members can view the members of their workspaces"
+  on public.workspace_members for select
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Owners can change member roles"
+  on public.workspace_members for update
+  using (public.is_workspace_owner(workspace_id));
+
+create policy "Owners can remove members and members can leave"
+  on public.workspace_members for delete
+  using (public.is_workspace_owner(workspace_id) or user_id = auth.uid());
+
+create policy "Owners and invitees can view invites"
+  on public.workspace_invites for select
+  using (public.is_workspace_owner(workspace_id) or email = public.current_user_email());
+
+create policy "Owners can create invites"
+  on public.workspace_invites for insert
+  with check (public.is_workspace_owner(workspace_id) and invited_by = auth.uid());
+
+create policy "Owners can revoke invites and invitees can decline them"
+  on public.workspace_invites for delete
+  using (public.is_workspace_owner(workspace_id) or email = public.current_user_email());
+
+-- A workspace always keeps at least one owner, unless the workspace itself is being deleted
+create or replace function public.ensure_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.workspaces w where w.id = old.workspace_id)
+    and not exists (
+      select 1 from public.workspace_members m
+      where m.workspace_id = old.workspace_id and m.role = 'owner' and m.user_id <> old.user_id
+    )
+  then
+    raise exception 'A workspace needs at least one owner';
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger workspace_members_keep_owner
+  before update or delete on public.workspace_members
+  for each row execute function public.ensure_workspace_owner();
+
+create or replace function public.create_workspace(p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.workspaces (name, created_by)
+  values (trim(p_name), auth.uid())
+  returning id into v_workspace_id;
+
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+  values (v_workspace_id, auth.uid(), public.current_user_email(), 'owner');
+
+  return v_workspace_id;
+end;
+$$;
+
+create or replace function public.accept_workspace_invite(p_invite_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.workspace_invites;
+begin
+  select * into v_invite
+  from public.workspace_invites
+  where id = p_invite_id and email = public.current_user_email();
+
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+  values (v_invite.workspace_id, auth.uid(), v_invite.email, v_invite.role)
+  on conflict (workspace_id, user_id) do nothing;
+
+  delete from public.workspace_invites where id = p_invite_id;
+  return v_invite.workspace_id;
+end;
+$$;
+
+grant execute on function public.create_workspace(text) to authenticated;
+grant execute on function public.accept_workspace_invite(uuid) to authenticated;
+
+-- Deleting a workspace hands its content back to the people who created it
+alter table public.conversations
+  add column workspace_id uuid references public.workspaces(id) on delete set null;
+alter table public.shows
+  add column workspace_id uuid references public.workspaces(id) on delete set null;
+alter table public.persona_presets
+  add column workspace_id uuid references public.workspaces(id) on delete set null;
+
+create index conversations_workspace_id_idx on public.conversations (workspace_id);
+create index shows_workspace_id_idx on public.shows (workspace_id);
+create index persona_presets_workspace_id_idx on public.persona_presets (workspace_id);
+
+-- Workspace content: members read it and editors change it. The restrictive policies also
+-- apply to the creator's own rows, so a creator who was made a viewer or removed loses access too.
+create policy "Workspace members can view workspace conversations"
+  on public.conversations for select
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Workspace editors can update workspace conversations"
+  on public.conversations for update
+  using (public.can_edit_workspace(workspace_id));
+
+create policy "Workspace editors can delete workspace conversations"
+  on public.conversations for delete
+  using (public.can_edit_workspace(workspace_id));
+
+create policy "Workspace conversations are limited to members"
+  on public.conversations as restrictive for select
+  using (workspace_id is null or public.is_workspace_member(workspace_id) or public.is_shared_conversation(id));
+
+create policy "Only workspace editors can add workspace conversations"
+  on public.conversations as restrictive for insert
+  with check (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Only workspace editors can change workspace conversations"
+  on public.conversations as restrictive for update
+  using (workspace_id is null or public.can_edit_workspace(workspace_id))
+  with check (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Only workspace editors can delete workspace conversations"
+  on public.conversations as restrictive for delete
+  using (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Workspace members can view workspace messages"
+  on public.messages for select
+  using (public.is_workspace_member(public.conversation_workspace_id(conversation_id)));
+
+create policy "Workspace editors can add workspace messages"
+  on public.messages for insert
+  with check (public.can_edit_workspace(public.conversation_workspace_id(conversation_id)));
+
+create policy "Workspace editors can update workspace messages"
+  on public.messages for update
+  using (public.can_edit_workspace(public.conversation_workspace_id(conversation_id)));
+
+create policy "Workspace editors can delete workspace messages"
+  on public.messages for delete
+  using (public.can_edit_workspace(public.conversation_workspace_id(conversation_id)));
+
+create policy "Workspace messages are limited to members"
+  on public.messages as restrictive for select
+  using (
+    public.conversation_workspace_id(conversation_id) is null
+    or public.is_workspace_member(public.conversation_workspace_id(conversation_id))
+    or public.is_shared_conversation(conversation_id)
+  );
+
+create policy "Only workspace editors can add messages to workspace conversations"
+  on public.messages as restrictive for insert
+  with check (
+    public.conversation_workspace_id(conversation_id) is null
+    or public.can_edit_workspace(public.conversation_workspace_id(conversation_id))
+  );
+
+create policy "Only workspace editors can change messages in workspace conversations"
+  on public.messages as restrictive for update
+  using (
+    public.conversation_workspace_id(conversation_id) is null
+    or public.can_edit_workspace(public.conversation_workspace_id(conversation_id))
+  );
+
+create policy "Only workspace editors can delete messages in workspace conversations"
+  on public.messages as restrictive for delete
+  using (
+    public.conversation_workspace_id(conversation_id) is null
+    or public.can_edit_workspace(public.conversation_workspace_id(conversation_id))
+  );
+
+create policy "Workspace members can view workspace shows"
+  on public.shows for select
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Workspace editors can update workspace shows"
+  on public.shows for update
+  using (public.can_edit_workspace(workspace_id));
+
+create policy "Workspace editors can delete workspace shows"
+  on public.shows for delete
+  using (public.can_edit_workspace(workspace_id));
+
+create policy "Workspace shows are limited to members"
+  on public.shows as restrictive for select
+  using (workspace_id is null or public.is_workspace_member(workspace_id));
+
+create policy "Only workspace editors can add workspace shows"
+  on public.shows as restrictive for insert
+  with check (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Only workspace editors can change workspace shows"
+  on public.shows as restrictive for update
+  using (workspace_id is null or public.can_edit_workspace(workspace_id))
+  with check (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Only workspace editors can delete workspace shows"
+  on public.shows as restrictive for delete
+  using (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Workspace members can view workspace persona presets"
+  on public.persona_presets for select
+  using (public.is_workspace_member(workspace_id));
+
+create policy "Workspace editors can update workspace persona presets"
+  on public.persona_presets for update
+  using (public.can_edit_workspace(workspace_id));
+
+create policy "Workspace editors can delete workspace persona presets"
+  on public.persona_presets for delete
+  using (public.can_edit_workspace(workspace_id));
+
+create policy "Workspace persona presets are limited to members"
+  on public.persona_presets as restrictive for select
+  using (workspace_id is null or public.is_workspace_member(workspace_id));
+
+create policy "Only workspace editors can add workspace persona presets"
+  on public.persona_presets as restrictive for insert
+  with check (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Only workspace editors can change workspace persona presets"
+  on public.persona_presets as restrictive for update
+  using (workspace_id is null or public.can_edit_workspace(workspace_id))
+  with check (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Only workspace editors can delete workspace persona presets"
+  on public.persona_presets as restrictive for delete
+  using (workspace_id is null or public.can_edit_workspace(workspace_id));
+
+create policy "Workspace members can view versions of workspace persona presets"
+  on public.persona_preset_versions for select
+  using (exists (
+    select 1 from public.persona_presets p
+    where p.id = preset_id and public.is_workspace_member(p.workspace_id)
+  ));
+
+create policy "Workspace editors can add versions to workspace persona presets"
+  on public.persona_preset_versions for insert
+  with check (exists (
+    select 1 from public.persona_presets p
+    where p.id = preset_id and public.can_edit_workspace(p.workspace_id)
+  ));
+
+-- Workspace editors can share workspace conversations, not only the person who started them
+drop policy "Users can create their own conversation shares" on public.conversation_shares;
+
+create policy "Users can create their own conversation shares"
+  on public.conversation_shares for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.conversations c
+      where c.id = conversation_id
+        and (c.user_id = auth.uid() or public.can_edit_workspace(c.workspace_id))
+    )
+  );
+
+-- Search covers one space at a time: the personal space, or a workspace the caller belongs to
+drop function public.search_messages(text, integer);
+
+create or replace function public.search_messages(
+  p_query text,
+  p_limit integer default 30,
+  p_workspace_id uuid default null
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  snippet text,
+  "timestamp" timestamptz,
+  rank real
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      q.query,
+      'StartSel="' || chr(2) || '", StopSel="' || chr(3) || '", MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "'
+    ),
+    m."timestamp",
+    ts_rank(m.content_tsv, q.query)
+  from websearch_to_tsquery('english', p_query) as q(query)
+  join public.messages m on m.content_tsv @@ q.query
+  join public.conversations c on c.id = m.conversation_id
+  where case
+    when p_workspace_id is null then c.workspace_id is null and c.user_id = auth.uid()
+    else c.workspace_id = p_workspace_id and public.is_workspace_member(p_workspace_id)
+  end
+  order by ts_rank(m.content_tsv, q.query) desc, m."timestamp" desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+grant execute on function public.search_messages(text, integer, uuid) to authenticated;
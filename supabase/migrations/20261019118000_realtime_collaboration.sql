@@ -0,0 +1,35 @@
+-- Live updates for collaborators: row changes on conversations and messages are streamed to
+-- subscribers who can read the row under RLS. Deletes carry only the primary key.
+alter publication supabase_realtime add table public.conversations;
+alter publication supabase_realtime add table public.messages;
+
+-- Presence channels are private: "presence:workspace:<workspace id>" is open to the members of
+-- that workspace. Personal conversations have nobody else to see, so they have no channel.
+create or replace function public.can_join_presence_channel(p_topic text)
+returns boolean
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  if p_topic like 'presence:workspace:%' then
+    return public.is_workspace_member(split_part(p_topic, ':', 3)::uuid);
+  end if;
+  return false;
+exception
+  when invalid_text_representation then
+    return false;
+end;
+$$;
+
+grant execute on function public.can_join_presence_channel(text) to authenticated;
+
+create policy "Workspace members can receive presence in their workspaces"
+  on realtime.messages for select
+  to authenticated
+  using (realtime.messages.extension = 'presence' and public.can_join_presence_channel(realtime.topic()));
+
+create policy "Workspace members can track presence in their workspaces"
+  on realtime.messages for insert
+  to authenticated
+  with check (realtime.messages.extension = 'presence' and public.can_join_presence_channel(realtime.topic()));
@@ -0,0 +1,70 @@
+-- Folders, tags, pins and the archive are each person's own view of a conversation. They used to
+-- sit on the shared conversations row, so organizing a workspace conversation changed every
+-- member's sidebar and could file it in a folder that only its owner can see.
+create table public.conversation_organization (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  folder_id uuid references public.conversation_folders(id) on delete set null,
+  tags text[] not null default '{}',
+  pinned boolean not null default false,
+  -- Archived conversations are hidden from the sidebar unless the archive filter is on
+  archived_at timestamptz,
+  primary key (user_id, conversation_id)
+);
+
+create index conversation_organization_conversation_id_idx on public.conversation_organization (conversation_id);
+create index conversation_organization_folder_id_idx on public.conversation_organization (folder_id);
+create index conversation_organization_tags_idx on public.conversation_organization using gin (tags);
+
+alter table public.conversation_organization enable row level security;
+
+create policy "Users can view their own conversation organization"
+  on public.conversation_organization for select
+  using (auth.uid() = user_id);
+
+-- Anyone who can read a conversation can organize it for themselves, viewers included, but only
+-- into one of their own folders
+create policy "Users can organize conversations they can read"
+  on public.conversation_organization for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.conversations c where c.id = conversation_id)
+    and (
+      folder_id is null
+      or exists (select 1 from public.conversation_folders f where f.id = folder_id and f.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can update their own conversation organization"
+  on public.conversation_organization for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      folder_id is null
+      or exists (select 1 from public.conversation_folders f where f.id = folder_id and f.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can delete their own conversation organization"
+  on public.conversation_organization for delete
+  using (auth.uid() = user_id);
+
+-- The existing organization becomes the creator's own. A folder of another member is dropped.
+insert into public.conversation_organization (user_id, conversation_id, folder_id, tags, pinned, archived_at)
+select
+  c.user_id,
+  c.id,
+  case when f.user_id = c.user_id then c.folder_id end,
+  c.tags,
+  c.pinned,
+  c.archived_at
+from public.conversations c
+left join public.conversation_folders f on f.id = c.folder_id
+where c.folder_id is not null or c.tags <> '{}' or c.pinned or c.archived_at is not null;
+
+alter table public.conversations
+  drop column folder_id,
+  drop column tags,
+  drop column pinned,
+  drop column archived_at;
@@ -0,0 +1,54 @@
+-- Background requests (rolling summaries, memory proposals and generated titles) are counted in
+-- their own rate limit bucket, so they never use up the requests a user has for replies.
+alter table public.api_rate_limits
+  add column bucket text not null default 'interactive' check (bucket in ('interactive', 'background'));
+
+alter table public.api_rate_limits drop constraint api_rate_limits_pkey;
+alter table public.api_rate_limits add primary key (user_id, bucket);
+
+drop function public.consume_rate_limit(uuid, integer, integer);
+
+-- Counts one request for the user in a bucket. Returns 0 when it is allowed, otherwise the number
+-- of seconds until the current window ends.
+create or replace function public.consume_rate_limit(
+  p_user_id uuid,
+  p_bucket text,
+  p_max_requests integer,
+  p_window_seconds integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_window_start timestamptz;
+  v_request_count integer;
+begin
+  insert into public.api_rate_limits as limits (user_id, bucket, window_start, request_count)
+  values (p_user_id, p_bucket, now(), 1)
+  on conflict (user_id, bucket) do update
+    set window_start = case
+          when limits.window_start <= now() - make_interval(secs => p_window_seconds) then now()
+          else limits.window_start
+        end,
+        request_count = case
+          when limits.window_start <= now() - make_interval(secs => p_window_seconds) then 1
+          else limits.request_count + 1
+        end
+  returning window_start, request_count into v_window_start, v_request_count;
+
+  if v_request_count <= p_max_requests then
+    return 0;
+  end if;
+
+  return greatest(1, ceil(extract(epoch from
+    v_window_start + make_interval(secs => p_window_seconds) - now()))::integer);
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(uuid, text, integer, integer) from public, anon, authenticated;
+
+-- Background requests are recorded with the conversation they were made for but no message
+alter table public.message_usage
+  add column task text not null default 'reply' check (task in ('reply', 'summary', 'memories', 'title'));
@@ -0,0 +1,42 @@
+-- Deleting a persona preset only hides it from the library. Its versions stay, so conversations
+-- that pinned one of them keep replaying the exact prompt they were run with.
+alter table public.persona_presets add column deleted_at timestamptz;
+
+-- Copies the starter presets into the caller's personal library the first time it is loaded.
+-- Does nothing once the library has ever had a preset, deleted ones included, and the lock makes
+-- two tabs loading the library at the same time seed it only once.
+create or replace function public.seed_persona_presets(p_presets jsonb)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_preset jsonb;
+  v_preset_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('seed_persona_presets:' || auth.uid()::text));
+
+  if exists (
+    select 1 from public.persona_presets
+    where user_id = auth.uid() and workspace_id is null
+  ) then
+    return;
+  end if;
+
+  for v_preset in select * from jsonb_array_elements(p_presets)
+  loop
+    insert into public.persona_presets (user_id, name, description, current_version)
+    values (auth.uid(), v_preset ->> 'name', v_preset ->> 'description', 1)
+    returning id into v_preset_id;
+
+    insert into public.persona_preset_versions (preset_id, version, system_prompt)
+    values (v_preset_id, 1, v_preset ->> 'system_prompt');
+  end loop;
+end;
+$$;
+
+grant execute on function public.seed_persona_presets(jsonb) to authenticated;
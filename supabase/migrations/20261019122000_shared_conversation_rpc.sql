@@ -0,0 +1,61 @@
+-- The share page used to read conversations, messages and shares directly, with the token in a
+-- request header opening up the select policies. The column grants only limited signed-out
+-- visitors, so a signed-in visitor with a token could read every column. The page now calls
+-- get_shared_conversation, which returns only the public fields, and the token policies are gone.
+drop policy "Anyone with a share link can view the share" on public.conversation_shares;
+drop policy "Anyone with a share link can view the shared conversation" on public.conversations;
+drop policy "Anyone with a share link can view the shared messages" on public.messages;
+
+drop policy "Workspace conversations are limited to members" on public.conversations;
+create policy "Workspace conversations are limited to members"
+  on public.conversations as restrictive for select
+  using (workspace_id is null or public.is_workspace_member(workspace_id));
+
+drop policy "Workspace messages are limited to members" on public.messages;
+create policy "Workspace messages are limited to members"
+  on public.messages as restrictive for select
+  using (
+    public.conversation_workspace_id(conversation_id) is null
+    or public.is_workspace_member(public.conversation_workspace_id(conversation_id))
+  );
+
+drop function public.is_shared_conversation(uuid);
+drop function public.request_share_token();
+
+-- Title, synopsis, dates and the messages of a live share link, or null when the link does not
+-- exist, has expired or was revoked. Messages carry only the columns buildActivePath reads.
+create or replace function public.get_shared_conversation(p_token text)
+returns json
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select json_build_object(
+    'title', c.title,
+    'synopsis', c.synopsis,
+    'created_at', c.created_at,
+    'updated_at', c.updated_at,
+    'expires_at', s.expires_at,
+    'messages', coalesce((
+      select json_agg(json_build_object(
+        'id', m.id,
+        'parent_id', m.parent_id,
+        'is_active', m.is_active,
+        'role', m.role,
+        'content', m.content,
+        'status', m.status,
+        'safety_feedback', m.safety_feedback,
+        'timestamp', m."timestamp"
+      ) order by m."timestamp")
+      from public.messages m
+      where m.conversation_id = c.id
+    ), '[]'::json)
+  )
+  from public.conversation_shares s
+  join public.conversations c on c.id = s.conversation_id
+  where s.token = p_token
+    and (s.expires_at is null or s.expires_at > now());
+$$;
+
+grant execute on function public.get_shared_conversation(text) to anon, authenticated;
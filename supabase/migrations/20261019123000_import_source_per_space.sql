@@ -0,0 +1,59 @@
+-- Imports are deduplicated within the space they go into: a workspace sees what any member
+-- imported into it, and the personal space only what the user imported there. The same archive
+-- can then be imported into another space.
+drop index public.conversations_import_source_idx;
+
+-- Members may already have imported the same archive into one workspace; the oldest copy keeps
+-- its marker and the others stay as ordinary conversations
+update public.conversations c
+set import_source = null, import_source_id = null
+where c.workspace_id is not null
+  and c.import_source_id is not null
+  and exists (
+    select 1 from public.conversations other
+    where other.workspace_id = c.workspace_id
+      and other.import_source = c.import_source
+      and other.import_source_id = c.import_source_id
+      and (other.created_at, other.id) < (c.created_at, c.id)
+  );
+
+create unique index conversations_workspace_import_source_idx
+  on public.conversations (workspace_id, import_source, import_source_id)
+  where import_source_id is not null and workspace_id is not null;
+
+create unique index conversations_personal_import_source_idx
+  on public.conversations (user_id, import_source, import_source_id)
+  where import_source_id is not null and workspace_id is null;
+
+-- A conversation that moves into a space which already has the same import, for example when its
+-- workspace is deleted and it goes back to its creator, drops its marker instead of failing the move.
+-- It runs as definer because whoever moves the row may not see the conversations it conflicts with.
+create or replace function public.clear_conflicting_import_source()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.import_source_id is not null and exists (
+    select 1 from public.conversations other
+    where other.id <> new.id
+      and other.import_source = new.import_source
+      and other.import_source_id = new.import_source_id
+      and (
+        (new.workspace_id is not null and other.workspace_id = new.workspace_id)
+        or (new.workspace_id is null and other.workspace_id is null and other.user_id = new.user_id)
+      )
+  ) then
+    new.import_source := null;
+    new.import_source_id := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger conversations_clear_conflicting_import_source
+  before update of workspace_id on public.conversations
+  for each row
+  when (old.workspace_id is distinct from new.workspace_id)
+  execute function public.clear_conflicting_import_source();
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for the services and the pure edge function helpers; they run in Node, so anything
+// touching the browser is mocked
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+  },
+});